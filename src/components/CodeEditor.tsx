@@ -1,16 +1,33 @@
-import React, { useRef, useEffect, useState, useMemo, useCallback } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useState, useMemo, useCallback } from 'react';
 import Prism from 'prismjs';
-import 'prismjs/components/prism-javascript';
-import 'prismjs/components/prism-typescript';
-import 'prismjs/components/prism-python';
-import 'prismjs/components/prism-java';
-import 'prismjs/components/prism-css';
-import 'prismjs/components/prism-json';
-import 'prismjs/components/prism-markup';
-import 'prismjs/components/prism-markdown';
-import 'prismjs/components/prism-sql';
-import 'prismjs/components/prism-xml-doc';
-import DiffMatchPatch from 'diff-match-patch';
+import { ArrowLeft, ArrowRight, Loader2 } from 'lucide-react';
+import {
+  getRowSegments,
+  DEFAULT_COMPARISON_OPTIONS,
+  type ComparisonOptions,
+  type InlineSegment
+} from '../lib/compareOptions';
+import {
+  getRowLineIndex,
+  isModelCurrent,
+  lineToRow,
+  rowToLine,
+  type DiffModel,
+  type DiffSide
+} from '../lib/diffModel';
+import {
+  buildFoldedItems,
+  displayIndexToRow,
+  rowRangeToDisplayRange,
+  rowToDisplayIndex,
+  ROW_HEIGHT,
+  type FoldExpandDirection,
+  type FoldRange,
+  type NavigationTarget
+} from '../lib/folding';
+import { getLanguageLabel } from '../lib/languages';
+import { usePrismGrammar } from '../hooks/usePrismGrammar';
+import FoldPlaceholder from './FoldPlaceholder';
 
 interface CodeEditorProps {
   value: string;
@@ -19,24 +36,37 @@ interface CodeEditorProps {
   placeholder?: string;
   readOnly?: boolean;
   className?: string;
-  otherCode?: string; // 用于对比的另一段代码
   isLeft?: boolean; // 是否为左侧编辑器
-  onScroll?: (scrollTop: number, scrollLeft: number) => void;
+  onScroll?: (scrollTop: number, scrollLeft: number) => void; // 纵向位置以折叠后的对齐行为单位换算
   scrollTop?: number;
   scrollLeft?: number;
+  diffModel?: DiffModel; // 对齐后的差异模型，不传时按普通编辑器显示
+  folds?: FoldRange[]; // 对齐模式下折叠的未修改区域
+  onExpandFold?: (fold: FoldRange, direction: FoldExpandDirection) => void;
+  onHunkAction?: (hunkIndex: number) => void;
+  comparisonOptions?: ComparisonOptions; // 行内字符差异与行对齐使用相同的对比选项
+  flashTarget?: NavigationTarget; // 对齐模式下闪烁提示的导航目标
+  onCursorChange?: (offset: number) => void; // 光标在代码中的字符偏移
+  restoredCursor?: { offset: number }; // 每次传入新对象时将光标还原到该位置
 }
 
+// 显示行：lineIndex 为空时是填充行，row 为对应的对齐行，fold 为折叠占位行
+interface DisplayRow {
+  lineIndex?: number;
+  row?: number;
+  fold?: FoldRange;
+}
+
+const NO_FOLDS: FoldRange[] = [];
+
 // 虚拟滚动配置
-const ITEM_HEIGHT = 24; // 每行高度
 const VISIBLE_ITEMS = 30; // 可见行数
 const BUFFER_SIZE = 10; // 缓冲区大小
 
-// 创建diff实例
-const dmp = new DiffMatchPatch();
-
 /**
  * 代码编辑器组件
  * 支持语法高亮、虚拟滚动、字符级差异标记和双向同步
+ * 未获得焦点且差异模型与内容一致时按对齐行显示，插入/删除处以填充行占位，可折叠未修改区域；编辑时显示原始行
  */
 export default function CodeEditor({
   value,
@@ -45,85 +75,117 @@ export default function CodeEditor({
   placeholder = '请输入代码...',
   readOnly = false,
   className = '',
-  otherCode = '',
   isLeft = true,
   onScroll,
   scrollTop = 0,
-  scrollLeft = 0
+  scrollLeft = 0,
+  diffModel,
+  folds = NO_FOLDS,
+  onExpandFold,
+  onHunkAction,
+  comparisonOptions = DEFAULT_COMPARISON_OPTIONS,
+  flashTarget,
+  onCursorChange,
+  restoredCursor
 }: CodeEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const highlightRef = useRef<HTMLDivElement>(null);
   const [localScrollTop, setLocalScrollTop] = useState(0);
-  const [localScrollLeft, setLocalScrollLeft] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const { grammar, grammarName, loading: grammarLoading } = usePrismGrammar(language);
+  
+  // 以折叠后的对齐行为单位的滚动位置，以及最近一次由外部同步设置的位置
+  const rowScrollTopRef = useRef(0);
+  const scrollLeftRef = useRef(0);
+  const appliedScrollRef = useRef<{ top: number; left: number } | null>(null);
+  
+  const side: DiffSide = isLeft ? 'original' : 'modified';
+  const modelCurrent = !!diffModel && isModelCurrent(diffModel, side, value);
+  const isAligned = modelCurrent && !isFocused;
   
   // 分割代码为行
   const lines = useMemo(() => value.split('\n'), [value]);
-  const totalLines = lines.length;
+  
+  // 当前显示的行：对齐模式下为折叠后的对齐行，编辑模式下为原始行
+  const displayRows = useMemo((): DisplayRow[] => {
+    if (isAligned) {
+      return buildFoldedItems(diffModel.rows.length, folds).map(({ row, fold }) =>
+        fold ? { fold } : { lineIndex: getRowLineIndex(diffModel.rows[row], side), row }
+      );
+    }
+    return lines.map((_, index) => ({
+      lineIndex: index,
+      row: modelCurrent ? lineToRow(diffModel, side, index) : undefined
+    }));
+  }, [isAligned, modelCurrent, diffModel, folds, side, lines]);
+  const totalRows = displayRows.length;
   
   // 计算虚拟滚动范围
   const startIndex = useMemo(() => {
-    const index = Math.floor(localScrollTop / ITEM_HEIGHT) - BUFFER_SIZE;
+    const index = Math.floor(localScrollTop / ROW_HEIGHT) - BUFFER_SIZE;
     return Math.max(0, index);
   }, [localScrollTop]);
   
   const endIndex = useMemo(() => {
     const index = startIndex + VISIBLE_ITEMS + BUFFER_SIZE * 2;
-    return Math.min(totalLines, index);
-  }, [startIndex, totalLines]);
+    return Math.min(totalRows, index);
+  }, [startIndex, totalRows]);
   
   // 可见行数据
-  const visibleLines = useMemo(() => {
-    return lines.slice(startIndex, endIndex);
-  }, [lines, startIndex, endIndex]);
+  const visibleRows = useMemo(() => {
+    return displayRows.slice(startIndex, endIndex);
+  }, [displayRows, startIndex, endIndex]);
   
-  // 计算字符级差异
-  const lineDiffs = useMemo(() => {
-    if (!otherCode || !value) return [];
-    
-    const currentLines = value.split('\n');
-    const otherLines = otherCode.split('\n');
-    const maxLines = Math.max(currentLines.length, otherLines.length);
+  // 计算可见的修改行的字符级差异，只保留当前一侧的片段
+  const visibleSegments = useMemo(() => {
+    const segments = new Map<number, InlineSegment[]>();
+    if (!modelCurrent) return segments;
     
-    const diffs = [];
-    
-    for (let i = 0; i < maxLines; i++) {
-      const currentLine = currentLines[i] || '';
-      const otherLine = otherLines[i] || '';
+    visibleRows.forEach(({ row }) => {
+      const item = row !== undefined ? diffModel.rows[row] : undefined;
+      const inline = item && getRowSegments(item, comparisonOptions);
+      if (!inline) return;
       
-      if (currentLine !== otherLine) {
-        const lineDiff = dmp.diff_main(currentLine, otherLine);
-        dmp.diff_cleanupSemantic(lineDiff);
-        diffs[i] = lineDiff;
-      }
-    }
+      segments.set(row, isLeft ? inline.original : inline.modified);
+    });
     
-    return diffs;
-  }, [value, otherCode]);
+    return segments;
+  }, [visibleRows, modelCurrent, diffModel, isLeft, comparisonOptions]);
+  
+  // 行号位置与折叠后的对齐行位置（像素）互相换算，模型过期时按一行对一行处理
+  const toRowOffset = useCallback((lineOffset: number) => {
+    if (!modelCurrent) return lineOffset;
+    const line = Math.floor(lineOffset / ROW_HEIGHT);
+    const fraction = lineOffset - line * ROW_HEIGHT;
+    return rowToDisplayIndex(folds, lineToRow(diffModel, side, line)) * ROW_HEIGHT + fraction;
+  }, [modelCurrent, diffModel, folds, side]);
+  
+  const toLineOffset = useCallback((rowOffset: number) => {
+    if (!modelCurrent) return rowOffset;
+    const index = Math.floor(rowOffset / ROW_HEIGHT);
+    const row = displayIndexToRow(folds, index);
+    const line = rowToLine(diffModel, side, row);
+    // 位于填充行时停在其后的第一行
+    const fraction = lineToRow(diffModel, side, line) === row ? rowOffset - index * ROW_HEIGHT : 0;
+    return line * ROW_HEIGHT + fraction;
+  }, [modelCurrent, diffModel, folds, side]);
   
   // 渲染带差异高亮的行
-  const renderLineWithDiff = useCallback((lineContent: string, lineIndex: number) => {
-    const actualLineIndex = startIndex + lineIndex;
-    const diff = lineDiffs[actualLineIndex];
-    
+  const renderLineWithDiff = useCallback((lineContent: string, row?: number) => {
+    const diff = row !== undefined ? visibleSegments.get(row) : undefined;
     if (!diff) {
       // 无差异，正常高亮
-      const highlighted = Prism.highlight(lineContent, Prism.languages[language] || Prism.languages.plain, language);
+      const highlighted = Prism.highlight(lineContent, grammar, grammarName);
       return <span dangerouslySetInnerHTML={{ __html: highlighted }} />;
     }
     
     // 有差异，渲染差异高亮
     return (
       <span>
-        {diff.map(([type, text], index) => {
-          let className = '';
-          if (type === 1) { // 插入
-            className = isLeft ? '' : 'diff-insert';
-          } else if (type === -1) { // 删除
-            className = isLeft ? 'diff-delete' : '';
-          }
-          
-          const highlighted = Prism.highlight(text, Prism.languages[language] || Prism.languages.plain, language);
+        {diff.map((segment, index) => {
+          const className = segment.changed ? (isLeft ? 'diff-delete' : 'diff-insert') : '';
+          const highlighted = Prism.highlight(segment.text, grammar, grammarName);
           
           return (
             <span
@@ -135,41 +197,126 @@ export default function CodeEditor({
         })}
       </span>
     );
-  }, [lineDiffs, startIndex, language, isLeft]);
+  }, [visibleSegments, grammar, grammarName, isLeft]);
+  
+  // 整行背景：当前一侧被删除/插入/修改的行着色，移动的行使用单独的颜色，另一侧缺少的行显示为填充行
+  const getRowClassName = useCallback(({ lineIndex, row }: DisplayRow) => {
+    if (lineIndex === undefined) return 'diff-filler';
+    const type = row !== undefined && modelCurrent ? diffModel.rows[row]?.type : undefined;
+    if (!type || type === 'equal') return '';
+    if (type === 'move') return 'diff-move';
+    return isLeft ? 'bg-red-500/10' : 'bg-green-500/10';
+  }, [modelCurrent, diffModel, isLeft]);
+  
+  // 设置当前滚动容器的位置：对齐模式下滚动高亮层，编辑模式下滚动输入层
+  const applyScroll = useCallback((top: number, left: number) => {
+    const scroller = isAligned ? highlightRef.current : textareaRef.current;
+    if (!scroller) return;
+    
+    scroller.scrollTop = top;
+    scroller.scrollLeft = left;
+    if (!isAligned && highlightRef.current) {
+      highlightRef.current.scrollTop = scroller.scrollTop;
+      highlightRef.current.scrollLeft = scroller.scrollLeft;
+    }
+    
+    // 记录实际位置（可能被浏览器截断），随后触发的滚动事件不再回传
+    appliedScrollRef.current = { top: scroller.scrollTop, left: scroller.scrollLeft };
+    setLocalScrollTop(scroller.scrollTop);
+  }, [isAligned]);
+  
+  // 滚动到以折叠后的对齐行为单位的位置，编辑模式下换算为原始行位置
+  const scrollToRow = useCallback((rowTop: number, left: number) => {
+    applyScroll(isAligned ? rowTop : toLineOffset(rowTop), left);
+  }, [applyScroll, isAligned, toLineOffset]);
   
   // 处理滚动事件
-  const handleScroll = useCallback((e: React.UIEvent<HTMLTextAreaElement>) => {
-    const target = e.target as HTMLTextAreaElement;
+  const handleScroll = useCallback((e: React.UIEvent<HTMLElement>) => {
+    const target = e.currentTarget;
+    // 只处理当前模式下的滚动容器
+    if ((target === highlightRef.current) !== isAligned) return;
+    
     const newScrollTop = target.scrollTop;
     const newScrollLeft = target.scrollLeft;
     
     setLocalScrollTop(newScrollTop);
-    setLocalScrollLeft(newScrollLeft);
     
     // 同步高亮层滚动
-    if (highlightRef.current) {
+    if (!isAligned && highlightRef.current) {
       highlightRef.current.scrollTop = newScrollTop;
       highlightRef.current.scrollLeft = newScrollLeft;
     }
     
+    const applied = appliedScrollRef.current;
+    if (applied && applied.top === newScrollTop && applied.left === newScrollLeft) return;
+    appliedScrollRef.current = null;
+    
     // 通知父组件
-    onScroll?.(newScrollTop, newScrollLeft);
-  }, [onScroll]);
+    rowScrollTopRef.current = isAligned ? newScrollTop : toRowOffset(newScrollTop);
+    scrollLeftRef.current = newScrollLeft;
+    onScroll?.(rowScrollTopRef.current, newScrollLeft);
+  }, [onScroll, isAligned, toRowOffset]);
   
-  // 外部滚动同步
+  // 外部滚动同步，只在外部位置与当前位置不同时滚动
   useEffect(() => {
-    if (textareaRef.current && (scrollTop !== localScrollTop || scrollLeft !== localScrollLeft)) {
-      textareaRef.current.scrollTop = scrollTop;
-      textareaRef.current.scrollLeft = scrollLeft;
-      setLocalScrollTop(scrollTop);
-      setLocalScrollLeft(scrollLeft);
-      
-      if (highlightRef.current) {
-        highlightRef.current.scrollTop = scrollTop;
-        highlightRef.current.scrollLeft = scrollLeft;
-      }
+    if (scrollTop !== rowScrollTopRef.current || scrollLeft !== scrollLeftRef.current) {
+      rowScrollTopRef.current = scrollTop;
+      scrollLeftRef.current = scrollLeft;
+      scrollToRow(scrollTop, scrollLeft);
     }
-  }, [scrollTop, scrollLeft, localScrollTop, localScrollLeft]);
+  }, [scrollTop, scrollLeft, scrollToRow]);
+  
+  // 切换对齐/编辑模式时保持相同的对齐行位置；差异模型或折叠变化时不重新滚动
+  const alignedRef = useRef(isAligned);
+  useLayoutEffect(() => {
+    if (alignedRef.current === isAligned) return;
+    alignedRef.current = isAligned;
+    scrollToRow(rowScrollTopRef.current, scrollLeftRef.current);
+  }, [isAligned, scrollToRow]);
+  
+  // 点击对齐行进入编辑，光标定位到该行行首
+  const startEditing = useCallback((displayRow: DisplayRow) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !diffModel) return;
+    
+    const line = displayRow.lineIndex ?? rowToLine(diffModel, side, displayRow.row ?? 0);
+    const offset = lines.slice(0, line).reduce((total, text) => total + text.length + 1, 0);
+    
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(Math.min(offset, value.length), Math.min(offset, value.length));
+  }, [diffModel, side, lines, value]);
+  
+  // 合并按钮的位置：对齐模式下位于变更块首行，编辑模式下位于本侧的插入点
+  const hunkActions = useMemo(() => {
+    if (!modelCurrent || !onHunkAction) return [];
+    const lastLine = lines.length - 1;
+    return diffModel.hunks.map(hunk => ({
+      hunkIndex: hunk.index,
+      position: isAligned
+        ? rowToDisplayIndex(folds, hunk.startRow)
+        : Math.min(isLeft ? hunk.originalStart : hunk.modifiedStart, lastLine)
+    }));
+  }, [modelCurrent, onHunkAction, diffModel, folds, isAligned, isLeft, lines]);
+  
+  // 导航目标的显示范围，仅在对齐模式下提示
+  const flashRange = useMemo(() => {
+    if (!isAligned || !flashTarget) return undefined;
+    return rowRangeToDisplayRange(folds, flashTarget.startRow, flashTarget.endRow);
+  }, [isAligned, flashTarget, folds]);
+  
+  // 还原光标位置，不获取焦点
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !restoredCursor) return;
+    
+    const offset = Math.min(restoredCursor.offset, textarea.value.length);
+    textarea.setSelectionRange(offset, offset);
+  }, [restoredCursor]);
+  
+  // 光标移动或选区变化
+  const handleSelect = useCallback((e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    onCursorChange?.(e.currentTarget.selectionStart);
+  }, [onCursorChange]);
   
   // 处理输入变化
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -196,46 +343,62 @@ export default function CodeEditor({
   
   return (
     <div className={`relative h-full ${className}`} ref={containerRef}>
-      {/* 语法高亮层 */}
+      {/* 语法高亮层，对齐模式下自身负责滚动与点击 */}
       <div
         ref={highlightRef}
-        className="absolute inset-0 pointer-events-none overflow-hidden font-mono text-sm leading-6 whitespace-pre-wrap break-words"
+        onScroll={handleScroll}
+        className={`absolute inset-0 font-mono text-sm leading-6 whitespace-pre-wrap break-words ${
+          isAligned ? 'overflow-auto cursor-text' : 'pointer-events-none overflow-hidden'
+        }`}
         style={{
-          paddingTop: `${startIndex * ITEM_HEIGHT}px`,
-          paddingBottom: `${(totalLines - endIndex) * ITEM_HEIGHT}px`
+          paddingTop: `${startIndex * ROW_HEIGHT}px`,
+          paddingBottom: `${(totalRows - endIndex) * ROW_HEIGHT}px`
         }}
       >
         <div className="px-4 py-2">
-          {visibleLines.map((line, index) => (
+          {visibleRows.map((displayRow, index) => displayRow.fold ? (
+            <FoldPlaceholder
+              key={startIndex + index}
+              fold={displayRow.fold}
+              height={ROW_HEIGHT}
+              onExpand={onExpandFold}
+            />
+          ) : (
             <div
               key={startIndex + index}
-              className="min-h-[24px] flex items-start"
-              style={{ height: `${ITEM_HEIGHT}px` }}
+              className={`min-h-[24px] flex items-start ${getRowClassName(displayRow)}`}
+              style={{ height: `${ROW_HEIGHT}px` }}
+              onClick={isAligned ? () => startEditing(displayRow) : undefined}
             >
               {/* 行号 */}
               <span className="inline-block w-12 text-right text-gray-500 select-none mr-4 flex-shrink-0">
-                {startIndex + index + 1}
+                {displayRow.lineIndex !== undefined ? displayRow.lineIndex + 1 : ''}
               </span>
               
               {/* 代码内容 */}
               <div className="flex-1 min-w-0">
-                {renderLineWithDiff(line, index)}
+                {displayRow.lineIndex !== undefined && renderLineWithDiff(lines[displayRow.lineIndex] ?? '', displayRow.row)}
               </div>
             </div>
           ))}
         </div>
       </div>
       
-      {/* 输入层 */}
+      {/* 输入层，对齐模式下隐藏 */}
       <textarea
         ref={textareaRef}
         value={value}
         onChange={handleChange}
         onScroll={handleScroll}
         onKeyDown={handleKeyDown}
+        onSelect={handleSelect}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
         placeholder={placeholder}
         readOnly={readOnly}
-        className="absolute inset-0 w-full h-full resize-none border-none outline-none bg-transparent text-transparent caret-white font-mono text-sm leading-6 whitespace-pre-wrap break-words px-4 py-2"
+        className={`absolute inset-0 w-full h-full resize-none border-none outline-none bg-transparent text-transparent caret-white font-mono text-sm leading-6 whitespace-pre-wrap break-words px-4 py-2 ${
+          isAligned ? 'opacity-0 pointer-events-none' : ''
+        }`}
         style={{
           paddingLeft: '4rem', // 为行号留出空间
           caretColor: 'white'
@@ -246,6 +409,47 @@ export default function CodeEditor({
         autoCapitalize="off"
       />
       
+      {/* 合并按钮层 */}
+      {onHunkAction && hunkActions.length > 0 && (
+        <div className="absolute inset-y-0 left-0 w-5 overflow-hidden pointer-events-none z-10">
+          {hunkActions
+            .filter(action => action.position >= startIndex && action.position < endIndex)
+            .map(action => (
+              <button
+                key={action.hunkIndex}
+                onClick={() => onHunkAction(action.hunkIndex)}
+                className="absolute left-0.5 p-0.5 rounded bg-gray-700 hover:bg-blue-600 text-gray-200 pointer-events-auto transition-colors"
+                style={{ top: `${8 + action.position * ROW_HEIGHT - localScrollTop + 2}px` }}
+                title={isLeft ? '采用左侧变更覆盖右侧' : '采用右侧变更覆盖左侧'}
+              >
+                {isLeft ? <ArrowRight className="w-3 h-3" /> : <ArrowLeft className="w-3 h-3" />}
+              </button>
+            ))}
+        </div>
+      )}
+      
+      {/* 导航目标的闪烁提示 */}
+      {flashTarget && flashRange && (
+        <div className="absolute inset-0 overflow-hidden pointer-events-none">
+          <div
+            key={flashTarget.id}
+            className="diff-flash absolute inset-x-0"
+            style={{
+              top: `${8 + flashRange[0] * ROW_HEIGHT - localScrollTop}px`,
+              height: `${(flashRange[1] - flashRange[0]) * ROW_HEIGHT}px`
+            }}
+          />
+        </div>
+      )}
+      
+      {/* 语法加载中提示 */}
+      {grammarLoading && (
+        <div className="absolute top-2 right-4 z-10 flex items-center space-x-1 px-2 py-0.5 rounded bg-gray-800/90 text-xs text-gray-400 pointer-events-none">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          <span>正在加载 {getLanguageLabel(language)} 语法...</span>
+        </div>
+      )}
+      
       {/* 空状态提示 */}
       {!value && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -0,0 +1,114 @@
+import React from 'react';
+import { ListTree, Copy, Download, CircleCheck, TriangleAlert } from 'lucide-react';
+import { formatDataValue, toJsonPatch, type DataChange } from '../lib/jsonDiff';
+import { downloadFile } from '../lib/utils';
+
+interface DataDiffPanelProps {
+  changes: DataChange[];
+  error: string | null; // 解析失败时的错误信息
+  onSelect: (change: DataChange) => void;
+  fileName: string; // 下载 JSON Patch 时使用的文件名
+}
+
+// 各类变更的标记与颜色
+const OP_STYLES: Record<DataChange['op'], { label: string; className: string }> = {
+  add: { label: '新增', className: 'bg-green-900/40 text-green-300' },
+  remove: { label: '删除', className: 'bg-red-900/40 text-red-300' },
+  replace: { label: '修改', className: 'bg-yellow-900/40 text-yellow-300' }
+};
+
+// 变更值的描述
+const describeChange = (change: DataChange): string => {
+  switch (change.op) {
+    case 'add':
+      return formatDataValue(change.newValue);
+    case 'remove':
+      return formatDataValue(change.oldValue);
+    default:
+      return `${formatDataValue(change.oldValue)} → ${formatDataValue(change.newValue)}`;
+  }
+};
+
+/**
+ * 结构化差异面板组件
+ * 按 JSON Pointer 路径列出解析后数据的变更（忽略键顺序），可导出为 JSON Patch
+ */
+export default function DataDiffPanel({ changes, error, onSelect, fileName }: DataDiffPanelProps) {
+  const patchText = JSON.stringify(toJsonPatch(changes), null, 2);
+
+  // 复制 JSON Patch
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(patchText);
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  return (
+    <aside className="w-80 flex-shrink-0 bg-[#161b22] border-l border-gray-700 flex flex-col">
+      {/* 头部 */}
+      <div className="px-4 py-2 border-b border-gray-700 flex items-center space-x-2">
+        <ListTree className="w-4 h-4 text-blue-400" />
+        <span className="text-sm font-medium text-gray-300">结构化差异</span>
+        {!error && <span className="text-xs text-gray-500">{changes.length} 处变更</span>}
+      </div>
+
+      {/* 变更列表 */}
+      <div className="flex-1 overflow-auto p-3 space-y-2">
+        {error && (
+          <div className="flex items-start space-x-2 text-sm text-yellow-400">
+            <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!error && changes.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-24 text-gray-500 text-sm">
+            <CircleCheck className="w-6 h-6 mb-2 text-green-400" />
+            数据内容相同
+          </div>
+        )}
+
+        {!error && changes.map((change, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(change)}
+            className="w-full text-left border border-gray-600 rounded-lg p-2 space-y-1 hover:bg-gray-800 transition-colors"
+          >
+            <div className="flex items-center space-x-2 text-xs">
+              <span className={`px-1.5 py-0.5 rounded ${OP_STYLES[change.op].className}`}>
+                {OP_STYLES[change.op].label}
+              </span>
+              <span className="font-mono text-gray-200 break-all">{change.path || '/'}</span>
+            </div>
+            <div className="font-mono text-xs text-gray-400 break-all">{describeChange(change)}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* 导出 */}
+      <div className="p-3 border-t border-gray-700 space-y-2">
+        <div className="text-xs text-gray-400">导出为 JSON Patch（RFC 6902）</div>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleCopy}
+            disabled={!!error || changes.length === 0}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            <Copy className="w-4 h-4" />
+            <span>复制</span>
+          </button>
+          <button
+            onClick={() => downloadFile(patchText, fileName, 'application/json-patch+json')}
+            disabled={!!error || changes.length === 0}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            <Download className="w-4 h-4" />
+            <span>下载</span>
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
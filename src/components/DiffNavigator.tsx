@@ -1,51 +1,103 @@
-import React from 'react';
-import { ChevronUp, ChevronDown, RotateCcw } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, RotateCcw, ArrowLeft, ArrowRight, ArrowLeftRight, Undo2, Redo2, List } from 'lucide-react';
+import type { DiffModel } from '../lib/diffModel';
+import { findHunkAtRow, findNextHunk, findPreviousHunk, NO_CURRENT_ROW, type DiffHunk } from '../lib/hunks';
+import { formatShortcut } from '../lib/shortcuts';
 
 interface DiffNavigatorProps {
-  diffLines: number[];
-  currentLine?: number;
-  onNavigate: (lineNumber: number) => void;
+  diffModel: DiffModel;
+  currentRow?: number; // 当前对齐行（从0开始），尚未定位时为 NO_CURRENT_ROW
+  onNavigate: (row: number) => void;
+  onNavigateToHunk: (hunk: DiffHunk) => void;
   onReset?: () => void;
+  // 合并当前变更块，未定位到变更块时不传
+  onAcceptLeft?: () => void;
+  onAcceptRight?: () => void;
+  onUndoMerge?: () => void;
+  onRedoMerge?: () => void;
+  canUndoMerge?: boolean;
+  canRedoMerge?: boolean;
 }
 
+// 变更块在一侧的行范围描述
+const describeRange = (start: number, end: number): string => {
+  if (end === start) return `${start} 之后`;
+  return end - start === 1 ? `${end}` : `${start + 1}-${end}`;
+};
+
 /**
  * 差异导航器组件
- * 用于显示差异行位置并支持快速跳转
+ * 按变更块跳转，并可从下拉列表中选择变更块
  */
 export default function DiffNavigator({
-  diffLines,
-  currentLine = 0,
+  diffModel,
+  currentRow = NO_CURRENT_ROW,
   onNavigate,
-  onReset
+  onNavigateToHunk,
+  onReset,
+  onAcceptLeft,
+  onAcceptRight,
+  onUndoMerge,
+  onRedoMerge,
+  canUndoMerge = false,
+  canRedoMerge = false
 }: DiffNavigatorProps) {
-  // 找到当前行在差异列表中的位置
-  const currentDiffIndex = diffLines.findIndex(line => line >= currentLine);
-  const hasPrevious = currentDiffIndex > 0;
-  const hasNext = currentDiffIndex < diffLines.length - 1 && currentDiffIndex !== -1;
+  const { hunks } = diffModel;
+  const [showList, setShowList] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
   
-  // 跳转到上一个差异
-  const goToPrevious = () => {
-    if (hasPrevious) {
-      const prevIndex = currentDiffIndex - 1;
-      onNavigate(diffLines[prevIndex]);
-    }
-  };
+  // 当前位于移动块时可跳转到另一端
+  const currentMove = diffModel.rows[currentRow]?.move;
+  
+  // 当前所在的变更块与前后的变更块
+  const currentHunk = findHunkAtRow(hunks, currentRow);
+  const previousHunk = findPreviousHunk(hunks, currentRow);
+  const nextHunk = findNextHunk(hunks, currentRow);
   
-  // 跳转到下一个差异
-  const goToNext = () => {
-    if (hasNext) {
-      const nextIndex = currentDiffIndex + 1;
-      onNavigate(diffLines[nextIndex]);
-    } else if (currentDiffIndex === -1 && diffLines.length > 0) {
-      // 如果当前不在差异行，跳转到第一个差异
-      onNavigate(diffLines[0]);
-    }
+  // 点击列表外部时关闭
+  useEffect(() => {
+    if (!showList) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!listRef.current?.contains(e.target as Node)) setShowList(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [showList]);
+  
+  // 变更块的预览：第一行非空的变更内容
+  const getHunkPreview = (hunk: DiffHunk): string => {
+    const rows = diffModel.rows.slice(hunk.startRow, hunk.endRow);
+    const line = rows.map(row => row.modifiedLine ?? row.originalLine ?? '').find(text => text.trim());
+    return line?.trim() || '(空行)';
   };
   
-  if (diffLines.length === 0) {
+  // 撤销/重做合并按钮
+  const mergeHistoryButtons = (onUndoMerge || onRedoMerge) && (
+    <div className="flex items-center space-x-1">
+      <button
+        onClick={onUndoMerge}
+        disabled={!canUndoMerge}
+        className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        title="撤销合并"
+      >
+        <Undo2 className="w-4 h-4 text-gray-400" />
+      </button>
+      <button
+        onClick={onRedoMerge}
+        disabled={!canRedoMerge}
+        className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        title="重做合并"
+      >
+        <Redo2 className="w-4 h-4 text-gray-400" />
+      </button>
+    </div>
+  );
+  
+  if (hunks.length === 0) {
     return (
       <div className="flex items-center space-x-2 px-3 py-2 bg-gray-800 rounded-lg">
         <span className="text-sm text-gray-400">无差异</span>
+        {mergeHistoryButtons}
         {onReset && (
           <button
             onClick={onReset}
@@ -61,39 +113,103 @@ export default function DiffNavigator({
   
   return (
     <div className="flex items-center space-x-2 px-3 py-2 bg-gray-800 rounded-lg">
-      {/* 差异统计 */}
-      <span className="text-sm text-gray-300">
-        {diffLines.length} 处差异
-      </span>
-      
-      {/* 当前位置 */}
-      {currentDiffIndex !== -1 && (
-        <span className="text-xs text-gray-400">
-          ({currentDiffIndex + 1}/{diffLines.length})
-        </span>
-      )}
+      {/* 变更块统计与列表 */}
+      <div className="relative" ref={listRef}>
+        <button
+          onClick={() => setShowList(!showList)}
+          className="flex items-center space-x-1 text-sm text-gray-300 hover:text-white transition-colors"
+          title="变更列表"
+        >
+          <List className="w-4 h-4 text-gray-400" />
+          <span>{hunks.length} 处变更</span>
+          {currentHunk && (
+            <span className="text-xs text-gray-400">
+              ({currentHunk.index + 1}/{hunks.length})
+            </span>
+          )}
+        </button>
+        
+        {showList && (
+          <div className="absolute left-0 top-full mt-2 w-96 max-h-80 overflow-auto z-40 bg-[#1e1e1e] border border-gray-600 rounded-lg shadow-lg py-1">
+            {hunks.map(hunk => (
+              <button
+                key={hunk.index}
+                onClick={() => {
+                  onNavigateToHunk(hunk);
+                  setShowList(false);
+                }}
+                className={`w-full px-3 py-1.5 text-left text-xs transition-colors ${
+                  hunk === currentHunk ? 'bg-blue-900/50' : 'hover:bg-gray-800'
+                }`}
+              >
+                <div className="flex items-center justify-between text-gray-400">
+                  <span>变更 {hunk.index + 1}</span>
+                  <span className="font-mono space-x-2">
+                    <span className="text-red-400">-{describeRange(hunk.originalStart, hunk.originalEnd)}</span>
+                    <span className="text-green-400">+{describeRange(hunk.modifiedStart, hunk.modifiedEnd)}</span>
+                  </span>
+                </div>
+                <div className="font-mono text-gray-300 truncate">{getHunkPreview(hunk)}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
       
       {/* 导航按钮 */}
       <div className="flex items-center space-x-1">
         <button
-          onClick={goToPrevious}
-          disabled={!hasPrevious}
+          onClick={() => previousHunk && onNavigateToHunk(previousHunk)}
+          disabled={!previousHunk}
           className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          title="上一个差异"
+          title={formatShortcut('previousHunk')}
         >
           <ChevronUp className="w-4 h-4 text-gray-400" />
         </button>
         
         <button
-          onClick={goToNext}
-          disabled={!hasNext && currentDiffIndex !== -1}
+          onClick={() => nextHunk && onNavigateToHunk(nextHunk)}
+          disabled={!nextHunk}
           className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          title="下一个差异"
+          title={formatShortcut('nextHunk')}
         >
           <ChevronDown className="w-4 h-4 text-gray-400" />
         </button>
       </div>
       
+      {/* 移动块两端跳转 */}
+      {currentMove && currentMove.counterpartRow !== undefined && (
+        <button
+          onClick={() => onNavigate(currentMove.counterpartRow)}
+          className="p-1 rounded hover:bg-gray-700 transition-colors"
+          title={currentMove.role === 'source' ? '跳到移动后的位置' : '跳到移动前的位置'}
+        >
+          <ArrowLeftRight className="w-4 h-4 text-purple-400" />
+        </button>
+      )}
+      
+      {/* 合并当前变更块 */}
+      <div className="flex items-center space-x-1">
+        <button
+          onClick={onAcceptLeft}
+          disabled={!onAcceptLeft}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="采用左侧变更覆盖右侧"
+        >
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+        </button>
+        <button
+          onClick={onAcceptRight}
+          disabled={!onAcceptRight}
+          className="p-1 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="采用右侧变更覆盖左侧"
+        >
+          <ArrowLeft className="w-4 h-4 text-gray-400" />
+        </button>
+      </div>
+      
+      {mergeHistoryButtons}
+      
       {/* 重置按钮 */}
       {onReset && (
         <button
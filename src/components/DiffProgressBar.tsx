@@ -1,10 +1,11 @@
 import React from 'react';
+import type { DiffModel } from '../lib/diffModel';
+import { NO_CURRENT_ROW } from '../lib/hunks';
 
 interface DiffProgressBarProps {
-  diffLines: number[];
-  totalLines: number;
-  currentLine?: number;
-  onLineClick: (lineNumber: number) => void;
+  diffModel: DiffModel;
+  currentRow?: number; // 当前对齐行（从0开始），尚未定位时为 NO_CURRENT_ROW
+  onRowClick: (row: number) => void;
 }
 
 /**
@@ -12,48 +13,60 @@ interface DiffProgressBarProps {
  * 在右侧显示差异行的可视化进度条
  */
 export default function DiffProgressBar({
-  diffLines,
-  totalLines,
-  currentLine = 0,
-  onLineClick
+  diffModel,
+  currentRow = NO_CURRENT_ROW,
+  onRowClick
 }: DiffProgressBarProps) {
-  if (diffLines.length === 0 || totalLines === 0) {
+  const { rows, changedRows } = diffModel;
+  const totalRows = rows.length;
+  
+  if (changedRows.length === 0 || totalRows === 0) {
     return null;
   }
   
+  // 提示中显示两侧的行号，缺少的一侧不显示
+  const describeRow = (row: number) => {
+    const { originalIndex, modifiedIndex } = rows[row];
+    const parts: string[] = [];
+    if (originalIndex !== undefined) parts.push(`原始第 ${originalIndex + 1} 行`);
+    if (modifiedIndex !== undefined) parts.push(`修改第 ${modifiedIndex + 1} 行`);
+    return `${parts.join(' / ')}${rows[row].type === 'move' ? '为移动的代码' : '有差异'}`;
+  };
+  
   return (
     <div className="w-2 h-full bg-gray-800 relative cursor-pointer group">
       {/* 差异标记 */}
-      {diffLines.map((lineNumber) => {
-        const percentage = (lineNumber / totalLines) * 100;
-        const isActive = Math.abs(lineNumber - currentLine) < 3;
+      {changedRows.map((row) => {
+        const percentage = (row / totalRows) * 100;
+        const isActive = currentRow !== NO_CURRENT_ROW && Math.abs(row - currentRow) < 3;
+        const isMove = rows[row].type === 'move';
         
         return (
           <div
-            key={lineNumber}
+            key={row}
             className={`absolute w-full h-1 transition-all duration-200 ${
               isActive 
                 ? 'bg-yellow-400 shadow-lg' 
-                : 'bg-red-400 hover:bg-red-300'
+                : isMove ? 'bg-purple-400 hover:bg-purple-300' : 'bg-red-400 hover:bg-red-300'
             }`}
             style={{ top: `${percentage}%` }}
-            onClick={() => onLineClick(lineNumber)}
-            title={`第 ${lineNumber + 1} 行有差异`}
+            onClick={() => onRowClick(row)}
+            title={describeRow(row)}
           />
         );
       })}
       
       {/* 当前位置指示器 */}
-      {totalLines > 0 && (
+      {currentRow !== NO_CURRENT_ROW && (
         <div
           className="absolute w-full h-0.5 bg-blue-400 transition-all duration-200"
-          style={{ top: `${(currentLine / totalLines) * 100}%` }}
+          style={{ top: `${(currentRow / totalRows) * 100}%` }}
         />
       )}
       
       {/* 悬停提示 */}
       <div className="absolute left-full ml-2 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-10">
-        {diffLines.length} 处差异
+        {changedRows.length} 处差异
       </div>
     </div>
   );
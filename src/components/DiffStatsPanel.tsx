@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChartColumn } from 'lucide-react';
+import type { DiffModel } from '../lib/diffModel';
+import { formatSimilarity, type DiffStats } from '../lib/diffStats';
+
+interface DiffStatsPanelProps {
+  stats: DiffStats;
+  diffModel: DiffModel;
+  onNavigate: (row: number) => void;
+}
+
+/**
+ * 差异统计组件
+ * 工具栏中显示增删行数与相似度，展开后显示完整统计与变更分布直方图
+ */
+export default function DiffStatsPanel({ stats, diffModel, onNavigate }: DiffStatsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 点击面板外部时关闭
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen]);
+
+  const maxBucket = Math.max(1, ...stats.histogram);
+  const bucketCount = stats.histogram.length;
+
+  // 跳转到直方图某一段中的第一个差异行
+  const navigateToBucket = (bucket: number) => {
+    const startRow = Math.ceil((bucket / bucketCount) * diffModel.rows.length);
+    const row = diffModel.changedRows.find(changedRow => changedRow >= startRow);
+    if (row !== undefined) onNavigate(row);
+  };
+
+  const items = [
+    { label: '新增行', value: stats.insertedLines, className: 'text-green-400' },
+    { label: '删除行', value: stats.deletedLines, className: 'text-red-400' },
+    { label: '修改行', value: stats.modifiedLines, className: 'text-yellow-400' },
+    { label: '移动行', value: stats.movedLines, className: 'text-purple-400' },
+    { label: '变更块', value: stats.hunks, className: 'text-blue-400' },
+    { label: '新增字符', value: stats.charactersAdded, className: 'text-green-400' },
+    { label: '删除字符', value: stats.charactersRemoved, className: 'text-red-400' }
+  ];
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-2 py-1.5 rounded text-xs font-mono transition-colors ${
+          isOpen ? 'bg-gray-700' : 'hover:bg-gray-700'
+        }`}
+        title="差异统计"
+      >
+        <ChartColumn className="w-4 h-4 text-gray-400" />
+        <span className="text-green-400">+{stats.insertedLines}</span>
+        <span className="text-red-400">-{stats.deletedLines}</span>
+        <span className="text-yellow-400">~{stats.modifiedLines}</span>
+        <span className="text-gray-300">{formatSimilarity(stats.similarity)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 z-40 bg-[#1e1e1e] border border-gray-600 rounded-lg shadow-lg p-3 space-y-3 text-sm">
+          {/* 相似度 */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-gray-400">相似度</span>
+              <span className="text-gray-200 font-mono">{formatSimilarity(stats.similarity)}</span>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded">
+              <div className="h-full bg-blue-500 rounded" style={{ width: `${stats.similarity * 100}%` }} />
+            </div>
+          </div>
+
+          {/* 各类统计 */}
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {items.map(item => (
+              <div key={item.label} className="flex items-center justify-between">
+                <span className="text-gray-400">{item.label}</span>
+                <span className={`font-mono ${item.className}`}>{item.value}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* 变更分布直方图：从文件开头到结尾，点击跳转 */}
+          <div>
+            <div className="text-gray-400 mb-1">变更分布</div>
+            <div className="flex items-end h-12 space-x-px bg-gray-800 rounded p-1">
+              {stats.histogram.map((count, bucket) => (
+                <button
+                  key={bucket}
+                  onClick={() => navigateToBucket(bucket)}
+                  disabled={count === 0}
+                  className="flex-1 bg-blue-500/70 hover:bg-blue-400 disabled:bg-gray-700 disabled:cursor-default rounded-sm transition-colors"
+                  style={{ height: `${count === 0 ? 2 : Math.max(8, (count / maxBucket) * 100)}%` }}
+                  title={`${count} 行差异`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-0.5">
+              <span>开头</span>
+              <span>结尾</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
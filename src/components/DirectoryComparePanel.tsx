@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { FolderTree, FolderOpen, FileArchive, FileCode, ChevronRight, ChevronDown, X } from 'lucide-react';
+import {
+  buildFileTree,
+  compareFileSources,
+  type FileComparison,
+  type FileSource,
+  type FileStatus,
+  type FileTreeNode
+} from '../lib/directoryDiff';
+import type { DiffSide } from '../lib/diffModel';
+import { readDirectoryInput, readDroppedSource, readZipSource } from '../lib/fileSources';
+
+interface DirectoryComparePanelProps {
+  sources: Record<DiffSide, FileSource | null>;
+  onSourceChange: (side: DiffSide, source: FileSource | null) => void;
+  activePath: string | null;
+  onOpenFile: (file: FileComparison) => void;
+  onClose: () => void;
+}
+
+// 各状态的颜色与说明
+const STATUS_STYLES: Record<FileStatus, { label: string; className: string }> = {
+  added: { label: '新增', className: 'text-green-400' },
+  removed: { label: '删除', className: 'text-red-400' },
+  modified: { label: '修改', className: 'text-yellow-400' },
+  identical: { label: '相同', className: 'text-gray-500' }
+};
+
+const SIDE_LABELS: Record<DiffSide, string> = {
+  original: '原始',
+  modified: '修改'
+};
+
+// 过滤掉相同的文件，并去掉因此变空的目录
+const filterTree = (nodes: FileTreeNode[]): FileTreeNode[] => {
+  return nodes
+    .filter(node => node.status !== 'identical')
+    .map(node => (node.file ? node : { ...node, children: filterTree(node.children) }));
+};
+
+/**
+ * 目录对比面板组件
+ * 两侧分别载入文件夹或 ZIP 压缩包，以文件树展示各文件的变更，点击文件在编辑器中打开
+ */
+export default function DirectoryComparePanel({
+  sources,
+  onSourceChange,
+  activePath,
+  onOpenFile,
+  onClose
+}: DirectoryComparePanelProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [hideIdentical, setHideIdentical] = useState(false);
+  const [loadingSide, setLoadingSide] = useState<DiffSide | null>(null);
+  const [dragSide, setDragSide] = useState<DiffSide | null>(null);
+
+  const comparisons = useMemo(() => {
+    if (!sources.original || !sources.modified) return [];
+    return compareFileSources(sources.original, sources.modified);
+  }, [sources]);
+
+  const tree = useMemo(() => {
+    const nodes = buildFileTree(comparisons);
+    return hideIdentical ? filterTree(nodes) : nodes;
+  }, [comparisons, hideIdentical]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<FileStatus, number> = { added: 0, removed: 0, modified: 0, identical: 0 };
+    comparisons.forEach(file => counts[file.status]++);
+    return counts;
+  }, [comparisons]);
+
+  // 读取文件来源，失败时提示
+  const loadSource = async (side: DiffSide, read: () => Promise<FileSource | null>) => {
+    setLoadingSide(side);
+    try {
+      const source = await read();
+      if (!source) {
+        alert('请拖放文件夹或 .zip 压缩包');
+      } else if (source.files.length === 0) {
+        alert('没有找到可对比的文件');
+      } else {
+        onSourceChange(side, source);
+      }
+    } catch (error) {
+      alert(`读取失败：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoadingSide(null);
+    }
+  };
+
+  // 选择文件夹
+  const pickDirectory = (side: DiffSide) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.webkitdirectory = true;
+    input.onchange = () => {
+      if (input.files?.length) loadSource(side, () => readDirectoryInput(input.files));
+    };
+    input.click();
+  };
+
+  // 选择 ZIP 压缩包
+  const pickZip = (side: DiffSide) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) loadSource(side, () => readZipSource(file));
+    };
+    input.click();
+  };
+
+  const toggleDirectory = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  // 渲染文件树节点
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const style = STATUS_STYLES[node.status];
+    const isDirectory = !node.file;
+    const isCollapsed = collapsed.has(node.path);
+    const isBinary = node.file && (node.file.original?.content ?? node.file.modified?.content) === null;
+
+    return (
+      <div key={node.path}>
+        <button
+          onClick={() => (isDirectory ? toggleDirectory(node.path) : onOpenFile(node.file))}
+          disabled={isBinary}
+          className={`w-full flex items-center space-x-1 pr-2 py-0.5 text-left text-xs rounded transition-colors disabled:cursor-not-allowed ${
+            node.path === activePath ? 'bg-blue-900/50' : 'hover:bg-gray-800'
+          }`}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          title={isBinary ? '二进制文件无法在编辑器中对比' : `${node.path}（${style.label}）`}
+        >
+          {isDirectory
+            ? (isCollapsed ? <ChevronRight className="w-3 h-3 flex-shrink-0" /> : <ChevronDown className="w-3 h-3 flex-shrink-0" />)
+            : <FileCode className="w-3 h-3 flex-shrink-0 text-gray-500" />}
+          <span className={`flex-1 truncate font-mono ${style.className}`}>{node.name}</span>
+          {isBinary && <span className="text-gray-500">二进制</span>}
+          {(node.additions > 0 || node.deletions > 0) && (
+            <span className="flex-shrink-0 font-mono space-x-1">
+              <span className="text-green-400">+{node.additions}</span>
+              <span className="text-red-400">-{node.deletions}</span>
+            </span>
+          )}
+        </button>
+        {isDirectory && !isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 bg-[#161b22] border-r border-gray-700 flex flex-col">
+      {/* 头部 */}
+      <div className="px-4 py-2 border-b border-gray-700 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FolderTree className="w-4 h-4 text-blue-400" />
+          <span className="text-sm font-medium text-gray-300">目录对比</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+          title="关闭"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* 两侧文件来源，支持拖放 */}
+      <div className="p-3 border-b border-gray-700 space-y-2">
+        {(['original', 'modified'] as DiffSide[]).map(side => {
+          const source = sources[side];
+          return (
+            <div
+              key={side}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragSide(side);
+              }}
+              onDragLeave={() => setDragSide(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragSide(null);
+                const { dataTransfer } = e;
+                loadSource(side, () => readDroppedSource(dataTransfer));
+              }}
+              className={`border border-dashed rounded-lg p-2 text-xs transition-colors ${
+                dragSide === side ? 'border-blue-400 bg-blue-900/20' : 'border-gray-600'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-gray-400">{SIDE_LABELS[side]}</span>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => pickDirectory(side)}
+                    className="p-1 rounded hover:bg-gray-700 transition-colors"
+                    title="选择文件夹"
+                  >
+                    <FolderOpen className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => pickZip(side)}
+                    className="p-1 rounded hover:bg-gray-700 transition-colors"
+                    title="选择 ZIP 压缩包"
+                  >
+                    <FileArchive className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-1 truncate text-gray-300">
+                {loadingSide === side
+                  ? '正在读取...'
+                  : source
+                    ? `${source.name}（${source.files.length} 个文件）`
+                    : '拖放文件夹或 ZIP 压缩包到这里'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 统计与过滤 */}
+      {comparisons.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-700 text-xs space-y-1">
+          <div className="flex flex-wrap gap-x-3">
+            {(Object.keys(STATUS_STYLES) as FileStatus[]).map(status => (
+              <span key={status} className={STATUS_STYLES[status].className}>
+                {STATUS_STYLES[status].label} {statusCounts[status]}
+              </span>
+            ))}
+          </div>
+          <label className="flex items-center space-x-2 text-gray-400">
+            <input
+              type="checkbox"
+              checked={hideIdentical}
+              onChange={(e) => setHideIdentical(e.target.checked)}
+              className="rounded"
+            />
+            <span>隐藏相同的文件</span>
+          </label>
+        </div>
+      )}
+
+      {/* 文件树 */}
+      <div className="flex-1 overflow-auto p-2">
+        {comparisons.length === 0 ? (
+          <div className="text-xs text-gray-500 text-center mt-4">两侧都载入后显示文件差异</div>
+        ) : (
+          tree.map(node => renderNode(node, 0))
+        )}
+      </div>
+    </aside>
+  );
+}
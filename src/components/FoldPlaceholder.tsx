@@ -0,0 +1,52 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
+import type { FoldExpandDirection, FoldRange } from '../lib/folding';
+
+interface FoldPlaceholderProps {
+  fold: FoldRange;
+  height: number;
+  onExpand?: (fold: FoldRange, direction: FoldExpandDirection) => void;
+}
+
+/**
+ * 折叠占位行组件
+ * 显示被隐藏的未修改行数，支持向上/向下/全部展开
+ */
+export default function FoldPlaceholder({ fold, height, onExpand }: FoldPlaceholderProps) {
+  const hiddenCount = fold.endRow - fold.startRow;
+  const buttonClassName = 'p-0.5 rounded hover:bg-blue-900/60 transition-colors';
+
+  return (
+    <div
+      className="flex items-center space-x-2 px-2 bg-blue-900/20 text-blue-300 text-xs select-none"
+      style={{ height: `${height}px` }}
+    >
+      {onExpand && (
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onExpand(fold, 'up')}
+            className={buttonClassName}
+            title="向上展开"
+          >
+            <ChevronUp className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => onExpand(fold, 'down')}
+            className={buttonClassName}
+            title="向下展开"
+          >
+            <ChevronDown className="w-3 h-3" />
+          </button>
+          <button
+            onClick={() => onExpand(fold, 'all')}
+            className={buttonClassName}
+            title="全部展开"
+          >
+            <ChevronsUpDown className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <span>⋯ {hiddenCount} 行未修改</span>
+    </div>
+  );
+}
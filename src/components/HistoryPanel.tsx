@@ -1,32 +1,157 @@
-import React, { useState, useRef } from 'react';
-import { Clock, Download, Upload, Trash2, X, FolderOpen } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import {
+  Clock,
+  Download,
+  Upload,
+  Trash2,
+  X,
+  FolderOpen,
+  Search,
+  Star,
+  Pencil,
+  Check,
+  AlertTriangle,
+  GitCompare,
+  GitCommitVertical,
+  ArrowLeftRight
+} from 'lucide-react';
 import { HistoryRecord } from '../store/useCodeStore';
+import HistoryTimeline from './HistoryTimeline';
+import type { DiffSide } from '../lib/diffModel';
+import { formatSimilarity } from '../lib/diffStats';
+import {
+  filterHistory,
+  findRecordRevisions,
+  getHistoryRecordName,
+  HISTORY_SIDE_LABELS,
+  parseTags,
+  sortHistory,
+  type HistoryVersion
+} from '../lib/history';
+import { getLanguageLabel } from '../lib/languages';
+import {
+  HISTORY_FILE_EXTENSION,
+  HISTORY_SCHEMA_VERSION,
+  parseHistoryExport,
+  type DuplicateStrategy,
+  type HistoryImport,
+  type HistoryImportSummary
+} from '../lib/historyFormat';
 
 interface HistoryPanelProps {
   history: HistoryRecord[];
   isOpen: boolean;
   onClose: () => void;
   onLoadRecord: (record: HistoryRecord) => void;
+  onCompareVersions: (left: HistoryVersion, right: HistoryVersion) => void;
+  onUpdateRecord: (id: string, changes: Partial<Pick<HistoryRecord, 'title' | 'tags' | 'pinned'>>) => void;
+  onDeleteRecord: (id: string) => void;
   onClearHistory: () => void;
   onExportHistory: () => string;
-  onImportHistory: (data: string) => boolean;
+  onImportHistory: (records: HistoryRecord[], strategy: DuplicateStrategy) => HistoryImportSummary;
 }
 
+// 时间筛选选项
+type DateRange = 'all' | 'today' | 'week' | 'month';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: '全部时间' },
+  { value: 'today', label: '今天' },
+  { value: 'week', label: '最近7天' },
+  { value: 'month', label: '最近30天' }
+];
+
+// 时间筛选的起始时间
+const getRangeStart = (range: DateRange): number | null => {
+  const now = new Date();
+  switch (range) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    case 'week':
+      return now.getTime() - 7 * 24 * 60 * 60 * 1000;
+    case 'month':
+      return now.getTime() - 30 * 24 * 60 * 60 * 1000;
+    default:
+      return null;
+  }
+};
+
+// 重复记录的处理方式
+const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: '跳过', description: '保留已有记录' },
+  { value: 'overwrite', label: '覆盖', description: '用文件中的记录替换已有记录' },
+  { value: 'keepBoth', label: '保留两份', description: '文件中的记录以新的 id 导入' }
+];
+
+// 选中用于对比的版本，recordId 为 null 表示当前编辑器中的代码
+interface CompareSlot {
+  recordId: string | null;
+  side: DiffSide;
+}
+
+const CURRENT_EDITOR_SLOT: CompareSlot = { recordId: null, side: 'modified' };
+
 /**
  * 历史记录面板组件
- * 管理代码对比历史记录，支持导入导出
+ * 管理代码对比历史记录，支持全文搜索、按语言与时间筛选、标题与标签、置顶以及导入导出
+ * 可选择两条记录（或一条记录与当前编辑器）的任意一侧代码进行对比，并查看记录的版本时间线
  */
 export default function HistoryPanel({
   history,
   isOpen,
   onClose,
   onLoadRecord,
+  onCompareVersions,
+  onUpdateRecord,
+  onDeleteRecord,
   onClearHistory,
   onExportHistory,
   onImportHistory
 }: HistoryPanelProps) {
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [language, setLanguage] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [pendingImport, setPendingImport] = useState<(HistoryImport & { fileName: string }) | null>(null);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [compareSlots, setCompareSlots] = useState<CompareSlot[]>([]);
+  const [timelineId, setTimelineId] = useState<string | null>(null);
+  
+  // 选中的对比版本，已被删除的记录改为当前编辑器
+  const compareVersions = useMemo((): HistoryVersion[] => {
+    const versions = compareSlots.map(slot => ({
+      record: history.find(item => item.id === slot.recordId) ?? null,
+      side: slot.side
+    }));
+    return versions.some(version => version.record) ? versions : [];
+  }, [compareSlots, history]);
+  
+  // 时间线中的记录
+  const timelineRecord = timelineId ? history.find(record => record.id === timelineId) : undefined;
+  const revisions = useMemo(
+    () => (timelineRecord ? findRecordRevisions(history, timelineRecord) : []),
+    [history, timelineRecord]
+  );
+  
+  // 历史记录中出现过的语言
+  const languages = useMemo(() => [...new Set(history.map(record => record.lang))], [history]);
+  
+  // 筛选后的记录，置顶记录在前
+  const filteredHistory = useMemo(() => sortHistory(filterHistory(history, {
+    query,
+    language: language || null,
+    since: getRangeStart(dateRange)
+  })), [history, query, language, dateRange]);
+  
+  // 用于定位代码预览的关键词（不含标签关键词）
+  const searchTerms = useMemo(
+    () => query.toLowerCase().split(/\s+/).filter(term => term && !term.startsWith('#')),
+    [query]
+  );
   
   // 格式化时间显示
   const formatTime = (timestamp: number): string => {
@@ -50,12 +175,55 @@ export default function HistoryPanel({
     });
   };
   
-  // 获取代码预览
+  // 获取代码预览，搜索时显示第一处匹配的行
   const getCodePreview = (code: string, maxLength: number = 50): string => {
-    const firstLine = code.split('\n')[0] || '';
-    return firstLine.length > maxLength 
-      ? firstLine.substring(0, maxLength) + '...'
-      : firstLine || '(空代码)';
+    const lines = code.split('\n');
+    const matchedLine = searchTerms.length > 0
+      ? lines.find(line => searchTerms.some(term => line.toLowerCase().includes(term)))
+      : undefined;
+    const previewLine = (matchedLine ?? lines[0] ?? '').trim();
+    return previewLine.length > maxLength 
+      ? previewLine.substring(0, maxLength) + '...'
+      : previewLine || '(空代码)';
+  };
+  
+  // 选择或取消选择用于对比的记录：第一条记录默认与当前编辑器对比，再选择一条时替换第二个版本
+  const toggleCompare = (record: HistoryRecord) => {
+    setCompareSlots(slots => {
+      if (slots.some(slot => slot.recordId === record.id)) {
+        const remaining = slots.filter(slot => slot.recordId !== null && slot.recordId !== record.id);
+        return remaining.length > 0 ? [remaining[0], CURRENT_EDITOR_SLOT] : [];
+      }
+      const slot: CompareSlot = { recordId: record.id, side: 'modified' };
+      return slots.length === 0 ? [slot, CURRENT_EDITOR_SLOT] : [slots[0], slot];
+    });
+  };
+  
+  // 修改对比版本使用的一侧代码
+  const setCompareSide = (index: number, side: DiffSide) => {
+    setCompareSlots(slots => slots.map((slot, i) => (i === index ? { ...slot, side } : slot)));
+  };
+  
+  // 对比两个版本并关闭面板
+  const handleCompare = (left: HistoryVersion, right: HistoryVersion) => {
+    onCompareVersions(left, right);
+    setCompareSlots([]);
+    setTimelineId(null);
+    onClose();
+  };
+  
+  // 开始编辑标题与标签
+  const startEditing = (record: HistoryRecord) => {
+    setEditingId(record.id);
+    setEditTitle(record.title ?? '');
+    setEditTags((record.tags ?? []).join(', '));
+  };
+  
+  // 保存标题与标签
+  const saveEditing = () => {
+    if (!editingId) return;
+    onUpdateRecord(editingId, { title: editTitle.trim() || undefined, tags: parseTags(editTags) });
+    setEditingId(null);
   };
   
   // 导出历史记录
@@ -66,7 +234,7 @@ export default function HistoryPanel({
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `codecheckup-history-${new Date().toISOString().split('T')[0]}.json`;
+      a.download = `codecheckup-history-${new Date().toISOString().split('T')[0]}${HISTORY_FILE_EXTENSION}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -77,25 +245,54 @@ export default function HistoryPanel({
     }
   };
   
-  // 导入历史记录
+  // 文件中与已有记录 id 重复的记录数
+  const duplicateCount = useMemo(() => {
+    if (!pendingImport) return 0;
+    const existingIds = new Set(history.map(record => record.id));
+    return pendingImport.records.filter(record => existingIds.has(record.id)).length;
+  }, [pendingImport, history]);
+  
+  // 导入已校验的记录并提示结果
+  const importRecords = (records: HistoryRecord[], strategy: DuplicateStrategy) => {
+    const summary = onImportHistory(records, strategy);
+    const details = [
+      `新增 ${summary.added} 条`,
+      summary.overwritten > 0 ? `覆盖 ${summary.overwritten} 条` : '',
+      summary.skipped > 0 ? `跳过 ${summary.skipped} 条` : ''
+    ].filter(Boolean);
+    alert(`导入完成：${details.join('，')}`);
+  };
+  
+  // 确认导入
+  const handleImportConfirm = () => {
+    if (!pendingImport) return;
+    importRecords(pendingImport.records, duplicateStrategy);
+    setPendingImport(null);
+  };
+  
+  // 导入历史记录：存在无效或重复的记录时先显示确认对话框
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     
     const reader = new FileReader();
     reader.onload = (e) => {
+      let result: HistoryImport;
       try {
-        const data = e.target?.result as string;
-        const success = onImportHistory(data);
-        if (success) {
-          alert('导入成功！');
-        } else {
-          alert('导入失败，请检查文件格式');
-        }
+        result = parseHistoryExport(e.target?.result as string);
       } catch (error) {
         console.error('Import failed:', error);
-        alert('导入失败，请检查文件格式');
+        alert(`导入失败：${error instanceof Error ? error.message : '请检查文件格式'}`);
+        return;
       }
+      
+      const existingIds = new Set(history.map(record => record.id));
+      if (result.errors.length === 0 && !result.records.some(record => existingIds.has(record.id))) {
+        importRecords(result.records, 'skip');
+        return;
+      }
+      setDuplicateStrategy('skip');
+      setPendingImport({ ...result, fileName: file.name });
     };
     reader.readAsText(file);
     
@@ -121,7 +318,9 @@ export default function HistoryPanel({
           <div className="flex items-center space-x-2">
             <Clock className="w-5 h-5 text-gray-400" />
             <h2 className="text-lg font-semibold text-gray-200">历史记录</h2>
-            <span className="text-sm text-gray-400">({history.length}/20)</span>
+            <span className="text-sm text-gray-400">
+              ({filteredHistory.length === history.length ? history.length : `${filteredHistory.length}/${history.length}`})
+            </span>
           </div>
           
           <div className="flex items-center space-x-2">
@@ -164,36 +363,212 @@ export default function HistoryPanel({
           </div>
         </div>
         
+        {/* 搜索与筛选 */}
+        {history.length > 0 && !timelineRecord && (
+          <div className="flex items-center space-x-2 px-4 py-3 border-b border-gray-600">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="搜索标题、标签或代码内容，#标签 精确匹配"
+                className="w-full pl-8 pr-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="px-2 py-1.5 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">全部语言</option>
+              {languages.map(lang => (
+                <option key={lang} value={lang}>{getLanguageLabel(lang)}</option>
+              ))}
+            </select>
+            <select
+              value={dateRange}
+              onChange={(e) => setDateRange(e.target.value as DateRange)}
+              className="px-2 py-1.5 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {DATE_RANGES.map(range => (
+                <option key={range.value} value={range.value}>{range.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         {/* 内容区域 */}
         <div className="flex-1 overflow-auto p-4">
-          {history.length === 0 ? (
+          {timelineRecord ? (
+            <HistoryTimeline
+              revisions={revisions}
+              focusId={timelineRecord.id}
+              onBack={() => setTimelineId(null)}
+              onLoadRecord={(record) => {
+                onLoadRecord(record);
+                onClose();
+              }}
+              onCompare={handleCompare}
+            />
+          ) : history.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-32 text-gray-400">
               <FolderOpen className="w-8 h-8 mb-2" />
               <p>暂无历史记录</p>
-              <p className="text-sm text-gray-500 mt-1">开始对比代码后会自动保存记录</p>
+              <p className="text-sm text-gray-500 mt-1">对比代码时会自动保存，也可以手动保存快照</p>
+            </div>
+          ) : filteredHistory.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-32 text-gray-400">
+              <Search className="w-8 h-8 mb-2" />
+              <p>没有匹配的记录</p>
             </div>
           ) : (
             <div className="space-y-3">
-              {history.map((record) => (
+              {filteredHistory.map((record) => (
                 <div
                   key={record.id}
-                  className="border border-gray-600 rounded-lg p-3 hover:bg-gray-800/50 cursor-pointer transition-all duration-200"
+                  className={`border rounded-lg p-3 hover:bg-gray-800/50 cursor-pointer transition-all duration-200 ${
+                    record.pinned ? 'border-yellow-600/60' : 'border-gray-600'
+                  } ${compareSlots.some(slot => slot.recordId === record.id) ? 'ring-1 ring-blue-500' : ''}`}
                   onClick={() => {
+                    if (editingId === record.id) return;
                     onLoadRecord(record);
                     onClose();
                   }}
                 >
                   <div className="flex items-start justify-between mb-2">
-                    <div className="flex items-center space-x-2">
-                      <span className="text-xs px-2 py-1 bg-blue-600 text-white rounded">
-                        {record.lang}
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="text-xs px-2 py-1 bg-blue-600 text-white rounded flex-shrink-0">
+                        {getLanguageLabel(record.lang)}
                       </span>
-                      <span className="text-sm text-gray-400">
+                      {record.snapshot && (
+                        <span className="text-xs px-1.5 py-0.5 bg-purple-700 text-white rounded flex-shrink-0">快照</span>
+                      )}
+                      {record.title && (
+                        <span className="text-sm font-medium text-gray-200 truncate">{record.title}</span>
+                      )}
+                      <span className="text-sm text-gray-400 flex-shrink-0">
                         {formatTime(record.timestamp)}
                       </span>
                     </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      {record.stats && (
+                        <div className="flex items-center space-x-2 text-xs font-mono">
+                          <span className="text-green-400">+{record.stats.insertedLines}</span>
+                          <span className="text-red-400">-{record.stats.deletedLines}</span>
+                          <span className="text-yellow-400">~{record.stats.modifiedLines}</span>
+                          <span className="text-gray-400">{formatSimilarity(record.stats.similarity)}</span>
+                        </div>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onUpdateRecord(record.id, { pinned: !record.pinned });
+                        }}
+                        className="p-1 rounded hover:bg-gray-700 transition-colors"
+                        title={record.pinned ? '取消置顶' : '置顶（不会被自动清理）'}
+                      >
+                        <Star className={`w-3.5 h-3.5 ${record.pinned ? 'text-yellow-400 fill-yellow-400' : 'text-gray-400'}`} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleCompare(record);
+                        }}
+                        className="p-1 rounded hover:bg-gray-700 transition-colors"
+                        title="选择用于对比"
+                      >
+                        <GitCompare
+                          className={`w-3.5 h-3.5 ${
+                            compareSlots.some(slot => slot.recordId === record.id) ? 'text-blue-400' : 'text-gray-400'
+                          }`}
+                        />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setTimelineId(record.id);
+                        }}
+                        className="p-1 rounded hover:bg-gray-700 transition-colors"
+                        title="版本时间线"
+                      >
+                        <GitCommitVertical className="w-3.5 h-3.5 text-gray-400" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(record);
+                        }}
+                        className="p-1 rounded hover:bg-gray-700 transition-colors"
+                        title="编辑标题与标签"
+                      >
+                        <Pencil className="w-3.5 h-3.5 text-gray-400" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteRecord(record.id);
+                        }}
+                        className="p-1 rounded hover:bg-gray-700 transition-colors"
+                        title="删除记录"
+                      >
+                        <Trash2 className="w-3.5 h-3.5 text-gray-400" />
+                      </button>
+                    </div>
                   </div>
                   
+                  {/* 标题与标签编辑 */}
+                  {editingId === record.id ? (
+                    <div className="flex items-center space-x-2 mb-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="text"
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                        placeholder="标题"
+                        autoFocus
+                        className="flex-1 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="text"
+                        value={editTags}
+                        onChange={(e) => setEditTags(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                        placeholder="标签，用逗号分隔"
+                        className="flex-1 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={saveEditing}
+                        className="p-1.5 rounded bg-blue-600 hover:bg-blue-700 transition-colors"
+                        title="保存"
+                      >
+                        <Check className="w-3.5 h-3.5 text-white" />
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+                        title="取消"
+                      >
+                        <X className="w-3.5 h-3.5 text-gray-400" />
+                      </button>
+                    </div>
+                  ) : record.tags && record.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {record.tags.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setQuery(`#${tag}`);
+                          }}
+                          className="text-xs px-1.5 py-0.5 bg-gray-700 text-gray-300 rounded hover:bg-gray-600 transition-colors"
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  
                   <div className="grid grid-cols-2 gap-3 text-sm">
                     <div>
                       <div className="text-gray-400 mb-1">原始代码:</div>
@@ -214,21 +589,139 @@ export default function HistoryPanel({
           )}
         </div>
         
+        {/* 对比选中的版本 */}
+        {compareVersions.length === 2 && !timelineRecord && (
+          <div className="flex items-center space-x-2 px-4 py-3 border-t border-gray-600 text-sm">
+            {compareVersions.map((version, index) => (
+              <React.Fragment key={index}>
+                {index === 1 && (
+                  <button
+                    onClick={() => setCompareSlots(slots => [...slots].reverse())}
+                    className="p-1 rounded hover:bg-gray-700 transition-colors flex-shrink-0"
+                    title="交换左右两侧"
+                  >
+                    <ArrowLeftRight className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+                <div className="flex-1 min-w-0 flex items-center space-x-1">
+                  <span className="truncate text-gray-300">
+                    {version.record ? getHistoryRecordName(version.record) : '当前编辑器'}
+                  </span>
+                  <select
+                    value={version.side}
+                    onChange={(e) => setCompareSide(index, e.target.value as DiffSide)}
+                    className="px-1 py-0.5 bg-gray-800 border border-gray-600 rounded text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(HISTORY_SIDE_LABELS) as DiffSide[]).map(side => (
+                      <option key={side} value={side}>{HISTORY_SIDE_LABELS[side]}</option>
+                    ))}
+                  </select>
+                </div>
+              </React.Fragment>
+            ))}
+            <button
+              onClick={() => handleCompare(compareVersions[0], compareVersions[1])}
+              className="flex items-center space-x-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors flex-shrink-0"
+            >
+              <GitCompare className="w-4 h-4" />
+              <span>对比</span>
+            </button>
+            <button
+              onClick={() => setCompareSlots([])}
+              className="p-1 rounded hover:bg-gray-700 transition-colors flex-shrink-0"
+              title="取消选择"
+            >
+              <X className="w-4 h-4 text-gray-400" />
+            </button>
+          </div>
+        )}
+        
         {/* 隐藏的文件输入 */}
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json"
+          accept={`.json,${HISTORY_FILE_EXTENSION}`}
           onChange={handleImport}
           className="hidden"
         />
         
+        {/* 导入确认对话框 */}
+        {pendingImport && (
+          <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+            <div className="bg-[#2a2a2a] border border-gray-600 rounded-lg p-6 w-full max-w-md max-h-[70vh] flex flex-col">
+              <h3 className="text-lg font-semibold text-gray-200 mb-1">导入历史记录</h3>
+              <p className="text-xs text-gray-500 mb-4 truncate">
+                {pendingImport.fileName}
+                {pendingImport.schemaVersion < HISTORY_SCHEMA_VERSION && ' · 旧版本格式，已自动升级'}
+                {pendingImport.appVersion && ` · 导出自 v${pendingImport.appVersion}`}
+              </p>
+              
+              <p className="text-sm text-gray-300 mb-3">
+                可导入 {pendingImport.records.length} 条记录
+                {pendingImport.errors.length > 0 && `，${pendingImport.errors.length} 条无效记录将被跳过`}
+              </p>
+              
+              {/* 无效记录 */}
+              {pendingImport.errors.length > 0 && (
+                <div className="mb-4 min-h-0 overflow-auto border border-gray-600 rounded p-2 space-y-1">
+                  {pendingImport.errors.map(error => (
+                    <div key={error.index} className="flex items-start space-x-2 text-xs">
+                      <AlertTriangle className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                      <span className="text-gray-400">
+                        第 {error.index + 1} 条{error.id && <span className="font-mono">（{error.id}）</span>}：
+                        <span className="text-gray-300">{error.message}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
+              {/* 重复记录的处理方式 */}
+              {duplicateCount > 0 && (
+                <div className="mb-4">
+                  <p className="text-sm text-gray-300 mb-2">{duplicateCount} 条记录与已有记录重复：</p>
+                  <div className="space-y-1">
+                    {DUPLICATE_STRATEGIES.map(strategy => (
+                      <label key={strategy.value} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="duplicate-strategy"
+                          checked={duplicateStrategy === strategy.value}
+                          onChange={() => setDuplicateStrategy(strategy.value)}
+                        />
+                        <span>{strategy.label}</span>
+                        <span className="text-xs text-gray-500">{strategy.description}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setPendingImport(null)}
+                  className="flex-1 px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleImportConfirm}
+                  disabled={pendingImport.records.length === 0}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  导入
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        
         {/* 确认清空对话框 */}
         {showClearConfirm && (
           <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
             <div className="bg-[#2a2a2a] border border-gray-600 rounded-lg p-6 max-w-sm">
               <h3 className="text-lg font-semibold text-gray-200 mb-4">确认清空</h3>
-              <p className="text-gray-400 mb-6">确定要清空所有历史记录吗？此操作不可撤销。</p>
+              <p className="text-gray-400 mb-6">确定要清空历史记录吗？置顶的记录会保留，此操作不可撤销。</p>
               
               <div className="flex space-x-3">
                 <button
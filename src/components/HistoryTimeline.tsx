@@ -0,0 +1,118 @@
+import React from 'react';
+import { ArrowLeft, GitCompare, FolderOpen } from 'lucide-react';
+import { formatSimilarity } from '../lib/diffStats';
+import type { HistoryRecord, HistoryVersion } from '../lib/history';
+
+interface HistoryTimelineProps {
+  revisions: HistoryRecord[]; // 按时间从早到晚排列
+  focusId: string; // 打开时间线的记录
+  onBack: () => void;
+  onLoadRecord: (record: HistoryRecord) => void;
+  onCompare: (left: HistoryVersion, right: HistoryVersion) => void;
+}
+
+// 代码的第一行非空内容
+const getFirstLine = (code: string, maxLength: number = 60): string => {
+  const line = code.split('\n').find(text => text.trim())?.trim() ?? '';
+  return line.length > maxLength ? line.substring(0, maxLength) + '...' : line || '(空代码)';
+};
+
+/**
+ * 历史版本时间线组件
+ * 按时间顺序列出同一段代码的各个版本，可与上一版本或当前编辑器中的代码对比
+ */
+export default function HistoryTimeline({
+  revisions,
+  focusId,
+  onBack,
+  onLoadRecord,
+  onCompare
+}: HistoryTimelineProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-1 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>返回列表</span>
+        </button>
+        <span className="text-sm text-gray-400">共 {revisions.length} 个版本</span>
+      </div>
+
+      <div className="relative pl-6">
+        {/* 时间轴 */}
+        <div className="absolute left-2 top-2 bottom-2 w-px bg-gray-600" />
+
+        {revisions.map((record, index) => {
+          const previous = revisions[index - 1];
+          return (
+            <div key={record.id} className="relative pb-4 last:pb-0">
+              <div
+                className={`absolute -left-[20px] top-1.5 w-2.5 h-2.5 rounded-full border-2 ${
+                  record.id === focusId ? 'bg-blue-500 border-blue-500' : 'bg-[#1e1e1e] border-gray-400'
+                }`}
+              />
+
+              <div
+                className={`border rounded-lg p-3 ${
+                  record.id === focusId ? 'border-blue-600/60 bg-blue-900/10' : 'border-gray-600'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="text-sm text-gray-300 flex-shrink-0">
+                      {new Date(record.timestamp).toLocaleString('zh-CN')}
+                    </span>
+                    {record.snapshot && (
+                      <span className="text-xs px-1.5 py-0.5 bg-purple-700 text-white rounded flex-shrink-0">快照</span>
+                    )}
+                    {record.title && <span className="text-sm font-medium text-gray-200 truncate">{record.title}</span>}
+                  </div>
+                  {record.stats && (
+                    <div className="flex items-center space-x-2 text-xs font-mono flex-shrink-0">
+                      <span className="text-green-400">+{record.stats.insertedLines}</span>
+                      <span className="text-red-400">-{record.stats.deletedLines}</span>
+                      <span className="text-gray-400">{formatSimilarity(record.stats.similarity)}</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="font-mono text-xs text-gray-400 truncate mb-2">{getFirstLine(record.modified)}</div>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => onLoadRecord(record)}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+                  >
+                    <FolderOpen className="w-3.5 h-3.5" />
+                    <span>载入</span>
+                  </button>
+                  {previous && (
+                    <button
+                      onClick={() => onCompare({ record: previous, side: 'modified' }, { record, side: 'modified' })}
+                      className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+                      title="上一版本的修改后代码与本版本的修改后代码对比"
+                    >
+                      <GitCompare className="w-3.5 h-3.5" />
+                      <span>与上一版本对比</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onCompare({ record, side: 'modified' }, { record: null, side: 'modified' })}
+                    className="flex items-center space-x-1 px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+                    title="本版本的修改后代码与当前编辑器中的修改代码对比"
+                  >
+                    <GitCompare className="w-3.5 h-3.5" />
+                    <span>与当前代码对比</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
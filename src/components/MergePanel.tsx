@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { GitMerge, Copy, Download, ClipboardPaste, CircleCheck, TriangleAlert } from 'lucide-react';
+import type { ConflictResolution, MergeRegion } from '../lib/merge3';
+import { downloadFile } from '../lib/utils';
+
+interface MergePanelProps {
+  regions: MergeRegion[];
+  resolutions: Record<number, ConflictResolution>;
+  onResolve: (regionIndex: number, resolution: ConflictResolution | null) => void;
+  getMergedCode: (withMarkers: boolean) => string;
+  onLoadConflictText: (text: string) => boolean;
+  fileName: string; // 下载合并结果时使用的文件名
+}
+
+// 冲突解决选项
+const RESOLUTION_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'ours', label: '采用原始' },
+  { value: 'theirs', label: '采用修改' },
+  { value: 'both', label: '保留两者' }
+];
+
+// 冲突内容预览，最多显示3行
+const previewLines = (lines: string[]): string => {
+  if (lines.length === 0) return '(删除)';
+  const preview = lines.slice(0, 3).join('\n');
+  return lines.length > 3 ? `${preview}\n… 共 ${lines.length} 行` : preview;
+};
+
+/**
+ * 三方合并面板组件
+ * 展示自动合并与冲突区域，逐个解决冲突并导出合并结果
+ */
+export default function MergePanel({
+  regions,
+  resolutions,
+  onResolve,
+  getMergedCode,
+  onLoadConflictText,
+  fileName
+}: MergePanelProps) {
+  const [withMarkers, setWithMarkers] = useState(true);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+
+  const conflictIndexes = regions
+    .map((region, index) => (region.kind === 'conflict' ? index : -1))
+    .filter(index => index >= 0);
+  const autoMergedCount = regions.filter(region => region.kind === 'auto').length;
+  const resolvedCount = conflictIndexes.filter(index => resolutions[index]).length;
+
+  // 解析粘贴的冲突文本
+  const handleParse = () => {
+    if (onLoadConflictText(pastedText)) {
+      setPastedText('');
+      setShowPaste(false);
+    } else {
+      alert('未找到完整的冲突标记（<<<<<<< / ======= / >>>>>>>）');
+    }
+  };
+
+  // 复制合并结果
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getMergedCode(withMarkers));
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  return (
+    <aside className="w-80 flex-shrink-0 bg-[#161b22] border-l border-gray-700 flex flex-col">
+      {/* 头部 */}
+      <div className="px-4 py-2 border-b border-gray-700 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <GitMerge className="w-4 h-4 text-blue-400" />
+          <span className="text-sm font-medium text-gray-300">三方合并</span>
+        </div>
+        <button
+          onClick={() => setShowPaste(!showPaste)}
+          className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+          title="粘贴冲突文本"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* 粘贴冲突文本 */}
+      {showPaste && (
+        <div className="p-3 border-b border-gray-700 space-y-2">
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder="粘贴包含 <<<<<<< ======= >>>>>>> 标记的文件内容..."
+            className="w-full h-32 px-2 py-1.5 bg-gray-800 border border-gray-600 rounded font-mono text-xs text-gray-200 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleParse}
+            disabled={!pastedText.trim()}
+            className="w-full px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            拆分为三栏
+          </button>
+        </div>
+      )}
+
+      {/* 统计 */}
+      <div className="px-4 py-2 border-b border-gray-700 text-xs text-gray-400 space-y-1">
+        <div>自动合并 {autoMergedCount} 处</div>
+        <div className={conflictIndexes.length > resolvedCount ? 'text-yellow-400' : 'text-green-400'}>
+          冲突 {conflictIndexes.length} 处，已解决 {resolvedCount} 处
+        </div>
+      </div>
+
+      {/* 冲突列表 */}
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        {conflictIndexes.length === 0 && (
+          <div className="flex flex-col items-center justify-center h-24 text-gray-500 text-sm">
+            <CircleCheck className="w-6 h-6 mb-2 text-green-400" />
+            没有需要处理的冲突
+          </div>
+        )}
+
+        {conflictIndexes.map((regionIndex, order) => {
+          const region = regions[regionIndex];
+          if (region.kind !== 'conflict') return null;
+          const resolution = resolutions[regionIndex];
+
+          return (
+            <div key={regionIndex} className="border border-gray-600 rounded-lg p-2 space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="flex items-center space-x-1 text-gray-300">
+                  {resolution
+                    ? <CircleCheck className="w-3 h-3 text-green-400" />
+                    : <TriangleAlert className="w-3 h-3 text-yellow-400" />}
+                  <span>冲突 #{order + 1}</span>
+                </span>
+                {resolution && (
+                  <button
+                    onClick={() => onResolve(regionIndex, null)}
+                    className="text-gray-500 hover:text-gray-300"
+                  >
+                    重置
+                  </button>
+                )}
+              </div>
+
+              <pre className="font-mono text-xs bg-red-900/20 text-gray-300 p-1.5 rounded whitespace-pre-wrap break-words">
+                {previewLines(region.ours)}
+              </pre>
+              <pre className="font-mono text-xs bg-green-900/20 text-gray-300 p-1.5 rounded whitespace-pre-wrap break-words">
+                {previewLines(region.theirs)}
+              </pre>
+
+              <div className="flex space-x-1">
+                {RESOLUTION_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => onResolve(regionIndex, option.value)}
+                    className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+                      resolution === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 导出 */}
+      <div className="p-3 border-t border-gray-700 space-y-2">
+        <label className="flex items-center space-x-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={withMarkers}
+            onChange={(e) => setWithMarkers(e.target.checked)}
+            className="rounded"
+          />
+          <span>未解决的冲突保留冲突标记（否则采用原始）</span>
+        </label>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleCopy}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors text-sm"
+          >
+            <Copy className="w-4 h-4" />
+            <span>复制</span>
+          </button>
+          <button
+            onClick={() => downloadFile(getMergedCode(withMarkers), fileName)}
+            className="flex-1 flex items-center justify-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm"
+          >
+            <Download className="w-4 h-4" />
+            <span>下载</span>
+          </button>
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { FileDiff, X, Copy, Download } from 'lucide-react';
+import type { LineDiffResult } from '../lib/lineDiff';
+import { createUnifiedPatch, DEFAULT_PATCH_CONTEXT } from '../lib/patch';
+import { downloadFile } from '../lib/utils';
+
+interface PatchExportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  originalCode: string;
+  modifiedCode: string;
+  lineDiffs: LineDiffResult[];
+  originalFileName: string;
+  modifiedFileName: string;
+  fallbackFileName: string; // 两侧都没有文件名时使用
+  onOriginalFileNameChange: (name: string) => void;
+  onModifiedFileNameChange: (name: string) => void;
+}
+
+/**
+ * 补丁导出面板组件
+ * 将当前对比结果导出为统一格式补丁，支持编辑文件名与上下文行数
+ */
+export default function PatchExportPanel({
+  isOpen,
+  onClose,
+  originalCode,
+  modifiedCode,
+  lineDiffs,
+  originalFileName,
+  modifiedFileName,
+  fallbackFileName,
+  onOriginalFileNameChange,
+  onModifiedFileNameChange
+}: PatchExportPanelProps) {
+  const [context, setContext] = useState(DEFAULT_PATCH_CONTEXT);
+
+  // 只导入了一侧文件时，另一侧沿用同一文件名
+  const oldFileName = originalFileName || modifiedFileName || fallbackFileName;
+  const newFileName = modifiedFileName || originalFileName || fallbackFileName;
+
+  const patch = useMemo(() => {
+    if (!isOpen) return '';
+    return createUnifiedPatch(originalCode, modifiedCode, lineDiffs, {
+      oldFileName,
+      newFileName,
+      context
+    });
+  }, [isOpen, originalCode, modifiedCode, lineDiffs, oldFileName, newFileName, context]);
+
+  // 复制补丁到剪贴板
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(patch);
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  // 下载补丁文件
+  const handleDownload = () => {
+    const baseName = newFileName.split('/').pop() || 'changes';
+    downloadFile(patch, `${baseName}.patch`, 'text/x-diff');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e1e1e] border border-gray-600 rounded-lg w-full max-w-3xl max-h-[80vh] flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-600">
+          <div className="flex items-center space-x-2">
+            <FileDiff className="w-5 h-5 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-200">导出补丁</h2>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-700 transition-all duration-200"
+          >
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        {/* 配置区域 */}
+        <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-3 border-b border-gray-600 text-sm">
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-400">原始文件名</span>
+            <input
+              value={originalFileName}
+              placeholder={oldFileName}
+              onChange={(e) => onOriginalFileNameChange(e.target.value)}
+              className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-400">修改文件名</span>
+            <input
+              value={modifiedFileName}
+              placeholder={newFileName}
+              onChange={(e) => onModifiedFileNameChange(e.target.value)}
+              className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex flex-col space-y-1">
+            <span className="text-gray-400">上下文行数</span>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              value={context}
+              onChange={(e) => setContext(Math.max(0, Number(e.target.value) || 0))}
+              className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+
+        {/* 补丁预览 */}
+        <div className="flex-1 overflow-auto p-4">
+          {patch ? (
+            <pre className="font-mono text-xs text-gray-300 whitespace-pre">
+              {patch.split('\n').map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.startsWith('@@') ? 'text-blue-400' :
+                    line.startsWith('+') ? 'text-green-400' :
+                    line.startsWith('-') ? 'text-red-400' : ''
+                  }
+                >
+                  {line || ' '}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <div className="flex items-center justify-center h-32 text-gray-400">
+              两侧代码没有差异
+            </div>
+          )}
+        </div>
+
+        {/* 底部操作 */}
+        <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-600">
+          <button
+            onClick={handleCopy}
+            disabled={!patch}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Copy className="w-4 h-4" />
+            <span>复制</span>
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!patch}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            <span>下载 .patch</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { FileUp, X, FileCode } from 'lucide-react';
+import type { PatchFile } from '../lib/patch';
+
+interface PatchImportPanelProps {
+  files: PatchFile[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectFile: (file: PatchFile) => void;
+}
+
+// 统计补丁中某个文件的新增/删除行数
+const countChanges = (file: PatchFile) => {
+  let additions = 0;
+  let deletions = 0;
+  file.hunks.forEach(hunk => {
+    hunk.lines.forEach(line => {
+      if (line.kind === '+') additions++;
+      if (line.kind === '-') deletions++;
+    });
+  });
+  return { additions, deletions };
+};
+
+/**
+ * 补丁导入面板组件
+ * 补丁包含多个文件时，选择要载入到编辑器的文件
+ */
+export default function PatchImportPanel({
+  files,
+  isOpen,
+  onClose,
+  onSelectFile
+}: PatchImportPanelProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e1e1e] border border-gray-600 rounded-lg w-full max-w-lg max-h-[80vh] flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-600">
+          <div className="flex items-center space-x-2">
+            <FileUp className="w-5 h-5 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-200">选择补丁中的文件</h2>
+            <span className="text-sm text-gray-400">({files.length})</span>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-700 transition-all duration-200"
+          >
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        {/* 文件列表 */}
+        <div className="flex-1 overflow-auto p-4 space-y-2">
+          {files.map((file, index) => {
+            const { additions, deletions } = countChanges(file);
+            const renamed = file.oldFileName && file.newFileName && file.oldFileName !== file.newFileName;
+
+            return (
+              <button
+                key={index}
+                onClick={() => {
+                  onSelectFile(file);
+                  onClose();
+                }}
+                className="w-full flex items-center justify-between border border-gray-600 rounded-lg p-3 hover:bg-gray-800/50 transition-all duration-200 text-left"
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <FileCode className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="font-mono text-sm text-gray-200 truncate">
+                    {renamed ? `${file.oldFileName} → ${file.newFileName}` : file.newFileName || file.oldFileName || '(未命名)'}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2 text-xs font-mono flex-shrink-0 ml-3">
+                  <span className="text-green-400">+{additions}</span>
+                  <span className="text-red-400">-{deletions}</span>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <p className="px-4 pb-4 text-xs text-gray-500">
+          补丁只包含变更附近的代码，未出现在补丁中的行不会被还原
+        </p>
+      </div>
+    </div>
+  );
+}
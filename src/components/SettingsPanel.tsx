@@ -1,5 +1,10 @@
 import React from 'react';
-import { Settings, X, Moon, Sun, Code } from 'lucide-react';
+import { Settings, X, Moon, Sun, Code, GitCompare, ListFilter, History } from 'lucide-react';
+import type { DiffAlgorithm } from '../lib/lineDiff';
+import type { ComparisonOptions, WhitespaceMode } from '../lib/compareOptions';
+import { AUTO_DETECT_LANGUAGE, LANGUAGES, getLanguageLabel } from '../lib/languages';
+import type { HistoryRetention } from '../lib/history';
+import { APP_VERSION } from '../lib/historyFormat';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -7,23 +12,66 @@ interface SettingsPanelProps {
   isDarkMode: boolean;
   onToggleTheme: () => void;
   selectedLanguage: string;
+  languagePinned: boolean;
   onLanguageChange: (language: string) => void;
+  diffAlgorithm: DiffAlgorithm;
+  onDiffAlgorithmChange: (algorithm: DiffAlgorithm) => void;
+  detectMoves: boolean;
+  onDetectMovesChange: (enabled: boolean) => void;
+  comparisonOptions: ComparisonOptions;
+  onComparisonOptionsChange: (options: Partial<ComparisonOptions>) => void;
+  contextLines: number;
+  onContextLinesChange: (lines: number) => void;
+  normalizeBeforeDiff: boolean;
+  onNormalizeBeforeDiffChange: (enabled: boolean) => void;
+  tabWidth: number;
+  onTabWidthChange: (width: number) => void;
+  historyRetention: HistoryRetention;
+  onHistoryRetentionChange: (retention: Partial<HistoryRetention>) => void;
 }
 
-// 支持的编程语言列表
-const SUPPORTED_LANGUAGES = [
-  { value: 'javascript', label: 'JavaScript', extension: '.js' },
-  { value: 'typescript', label: 'TypeScript', extension: '.ts' },
-  { value: 'python', label: 'Python', extension: '.py' },
-  { value: 'java', label: 'Java', extension: '.java' },
-  { value: 'css', label: 'CSS', extension: '.css' },
-  { value: 'json', label: 'JSON', extension: '.json' },
-  { value: 'html', label: 'HTML', extension: '.html' },
-  { value: 'markdown', label: 'Markdown', extension: '.md' },
-  { value: 'sql', label: 'SQL', extension: '.sql' },
-  { value: 'xml', label: 'XML', extension: '.xml' }
+// 行对齐算法选项
+const DIFF_ALGORITHMS: { value: DiffAlgorithm; label: string; description: string }[] = [
+  { value: 'myers', label: 'Myers', description: '经典最短编辑距离，适合大多数场景' },
+  { value: 'histogram', label: 'Histogram', description: '以低频行为锚点，代码块移动时结果更易读' }
 ];
 
+// 空白处理选项
+const WHITESPACE_MODES: { value: WhitespaceMode; label: string }[] = [
+  { value: 'none', label: '不忽略空白' },
+  { value: 'leadingTrailing', label: '忽略行首尾空白' },
+  { value: 'amount', label: '忽略空白数量' },
+  { value: 'all', label: '忽略所有空白' }
+];
+
+// 开关类对比选项
+const TOGGLE_OPTIONS: { key: 'ignoreCase' | 'normalizeLineEndings' | 'ignoreTrailingNewline'; label: string }[] = [
+  { key: 'ignoreCase', label: '忽略大小写' },
+  { key: 'normalizeLineEndings', label: '统一换行符（CRLF 视为 LF）' },
+  { key: 'ignoreTrailingNewline', label: '忽略文件末尾换行' }
+];
+
+// 历史记录保留时间与数量上限，null 表示不限制
+const RETENTION_DAYS: { value: number | null; label: string }[] = [
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 365, label: '1 年' },
+  { value: null, label: '永久保留' }
+];
+
+const RETENTION_RECORDS: { value: number | null; label: string }[] = [
+  { value: 100, label: '100 条' },
+  { value: 500, label: '500 条' },
+  { value: 1000, label: '1000 条' },
+  { value: 5000, label: '5000 条' },
+  { value: null, label: '不限' }
+];
+
+// select 中以空字符串表示 null
+const toOptionValue = (value: number | null): string => (value === null ? '' : String(value));
+const fromOptionValue = (value: string): number | null => (value === '' ? null : Number(value));
+
 /**
  * 设置面板组件
  * 提供主题切换、语言选择等配置选项
@@ -34,7 +82,22 @@ export default function SettingsPanel({
   isDarkMode,
   onToggleTheme,
   selectedLanguage,
-  onLanguageChange
+  languagePinned,
+  onLanguageChange,
+  diffAlgorithm,
+  onDiffAlgorithmChange,
+  detectMoves,
+  onDetectMovesChange,
+  comparisonOptions,
+  onComparisonOptionsChange,
+  contextLines,
+  onContextLinesChange,
+  normalizeBeforeDiff,
+  onNormalizeBeforeDiffChange,
+  tabWidth,
+  onTabWidthChange,
+  historyRetention,
+  onHistoryRetentionChange
 }: SettingsPanelProps) {
   if (!isOpen) return null;
   
@@ -104,19 +167,178 @@ export default function SettingsPanel({
             </h3>
             
             <select
-              value={selectedLanguage}
+              value={languagePinned ? selectedLanguage : AUTO_DETECT_LANGUAGE}
               onChange={(e) => onLanguageChange(e.target.value)}
               className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              {SUPPORTED_LANGUAGES.map((lang) => (
-                <option key={lang.value} value={lang.value}>
-                  {lang.label} ({lang.extension})
+              <option value={AUTO_DETECT_LANGUAGE}>自动检测（当前：{getLanguageLabel(selectedLanguage)}）</option>
+              {LANGUAGES.map((lang) => (
+                <option key={lang.id} value={lang.id}>
+                  {lang.label} ({lang.extensions[0]})
+                </option>
+              ))}
+            </select>
+            
+            <p className="text-xs text-gray-500 mt-2">
+              自动检测依据文件扩展名、shebang 与代码内容；手动选择后不再自动切换
+            </p>
+          </div>
+          
+          {/* 对比算法 */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-3 flex items-center space-x-2">
+              <GitCompare className="w-4 h-4" />
+              <span>对比算法</span>
+            </h3>
+            
+            <div className="space-y-2">
+              {DIFF_ALGORITHMS.map((algorithm) => (
+                <label key={algorithm.value} className="flex items-start space-x-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="diff-algorithm"
+                    checked={diffAlgorithm === algorithm.value}
+                    onChange={() => onDiffAlgorithmChange(algorithm.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-gray-200">{algorithm.label}</span>
+                    <span className="block text-xs text-gray-500">{algorithm.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            
+            <label className="mt-3 flex items-start space-x-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={detectMoves}
+                onChange={(e) => onDetectMovesChange(e.target.checked)}
+                className="mt-1 rounded"
+              />
+              <span>
+                <span className="text-gray-200">检测移动的代码块</span>
+                <span className="block text-xs text-gray-500">删除后在别处重新出现的代码以紫色标记</span>
+              </span>
+            </label>
+          </div>
+          
+          {/* 对比选项 */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-3 flex items-center space-x-2">
+              <ListFilter className="w-4 h-4" />
+              <span>对比选项</span>
+            </h3>
+            
+            <select
+              value={comparisonOptions.whitespace}
+              onChange={(e) => onComparisonOptionsChange({ whitespace: e.target.value as WhitespaceMode })}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {WHITESPACE_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
                 </option>
               ))}
             </select>
             
+            <div className="mt-3 space-y-2">
+              {TOGGLE_OPTIONS.map((option) => (
+                <label key={option.key} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={comparisonOptions[option.key]}
+                    onChange={(e) => onComparisonOptionsChange({ [option.key]: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            
+            <p className="text-xs text-gray-500 mt-2">
+              行对齐与行内字符差异使用相同的规则，并随历史记录一起保存
+            </p>
+            
+            <label className="mt-3 flex items-center justify-between text-sm text-gray-300">
+              <span>折叠时保留的上下文行数</span>
+              <input
+                type="number"
+                min={0}
+                max={50}
+                value={contextLines}
+                onChange={(e) => onContextLinesChange(Math.min(50, Number(e.target.value) || 0))}
+                className="w-20 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            
+            <label className="mt-3 flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={normalizeBeforeDiff}
+                onChange={(e) => onNormalizeBeforeDiffChange(e.target.checked)}
+                className="rounded"
+              />
+              <span>对比前格式化两侧代码</span>
+            </label>
+            
+            <label className="mt-3 flex items-center justify-between text-sm text-gray-300">
+              <span>缩进宽度</span>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={tabWidth}
+                onChange={(e) => onTabWidthChange(Number(e.target.value))}
+                disabled={!normalizeBeforeDiff}
+                className="w-20 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            
             <p className="text-xs text-gray-500 mt-2">
-              选择代码的编程语言以获得更好的语法高亮效果
+              JSON 重新缩进，XML/HTML 统一属性顺序与缩进，SQL 关键字转为大写，其他代码统一缩进；高亮仍对应原始文本
+            </p>
+          </div>
+          
+          {/* 历史记录 */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-300 mb-3 flex items-center space-x-2">
+              <History className="w-4 h-4" />
+              <span>历史记录</span>
+            </h3>
+            
+            <label className="flex items-center justify-between text-sm text-gray-300">
+              <span>保留时间</span>
+              <select
+                value={toOptionValue(historyRetention.maxAgeDays)}
+                onChange={(e) => onHistoryRetentionChange({ maxAgeDays: fromOptionValue(e.target.value) })}
+                className="w-28 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {RETENTION_DAYS.map((option) => (
+                  <option key={option.label} value={toOptionValue(option.value)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            
+            <label className="mt-3 flex items-center justify-between text-sm text-gray-300">
+              <span>最多保存</span>
+              <select
+                value={toOptionValue(historyRetention.maxRecords)}
+                onChange={(e) => onHistoryRetentionChange({ maxRecords: fromOptionValue(e.target.value) })}
+                className="w-28 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {RETENTION_RECORDS.map((option) => (
+                  <option key={option.label} value={toOptionValue(option.value)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            
+            <p className="text-xs text-gray-500 mt-2">
+              超出保留时间或数量的记录会被自动删除，置顶的记录始终保留
             </p>
           </div>
           
@@ -129,13 +351,17 @@ export default function SettingsPanel({
                 <span>虚拟滚动</span>
                 <span className="text-green-400">已启用</span>
               </div>
+              <div className="flex items-center justify-between">
+                <span>后台线程对比</span>
+                <span className="text-green-400">Web Worker</span>
+              </div>
               <div className="flex items-center justify-between">
                 <span>防抖对比</span>
                 <span className="text-green-400">500ms</span>
               </div>
               <div className="flex items-center justify-between">
-                <span>历史记录</span>
-                <span className="text-green-400">最近20条</span>
+                <span>历史记录存储</span>
+                <span className="text-green-400">IndexedDB</span>
               </div>
             </div>
             
@@ -148,7 +374,7 @@ export default function SettingsPanel({
         {/* 底部信息 */}
         <div className="p-4 border-t border-gray-600 text-center">
           <p className="text-xs text-gray-500">
-            码上找茬 (CodeCheckup) v1.0.0
+            码上找茬 (CodeCheckup) v{APP_VERSION}
           </p>
           <p className="text-xs text-gray-600 mt-1">
             专业的代码差异对比工具
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Share2, X, Copy, Download, AlertTriangle } from 'lucide-react';
+import {
+  MAX_SHARE_URL_LENGTH,
+  createShareFileContent,
+  createShareUrl,
+  type SharedComparison
+} from '../lib/shareLink';
+import { HISTORY_FILE_EXTENSION } from '../lib/historyFormat';
+import { downloadFile } from '../lib/utils';
+
+interface SharePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  comparison: SharedComparison;
+  fileName: string; // 下载分享文件时使用的文件名（不含扩展名）
+}
+
+/**
+ * 分享面板组件
+ * 将当前对比生成为链接；内容过大无法放入链接时改为下载 .codecheckup 文件
+ */
+export default function SharePanel({ isOpen, onClose, comparison, fileName }: SharePanelProps) {
+  const [shareUrl, setShareUrl] = useState<{ url: string | null; length: number } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // 打开时生成链接（压缩为异步操作）
+  useEffect(() => {
+    if (!isOpen) return;
+    let active = true;
+    setShareUrl(null);
+    setCopied(false);
+    createShareUrl(comparison, window.location.origin)
+      .then(result => {
+        if (active) setShareUrl(result);
+      })
+      .catch(error => {
+        console.error('生成分享链接失败:', error);
+        if (active) setShareUrl({ url: null, length: 0 });
+      });
+    return () => {
+      active = false;
+    };
+  }, [isOpen, comparison]);
+
+  // 复制链接到剪贴板
+  const handleCopy = async () => {
+    if (!shareUrl?.url) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl.url);
+      setCopied(true);
+    } catch (error) {
+      console.error('复制失败:', error);
+    }
+  };
+
+  // 下载分享文件
+  const handleDownload = () => {
+    downloadFile(createShareFileContent(comparison), `${fileName}${HISTORY_FILE_EXTENSION}`, 'application/json');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-[#1e1e1e] border border-gray-600 rounded-lg w-full max-w-xl flex flex-col">
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-600">
+          <div className="flex items-center space-x-2">
+            <Share2 className="w-5 h-5 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-200">分享对比</h2>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="p-2 rounded hover:bg-gray-700 transition-all duration-200"
+          >
+            <X className="w-4 h-4 text-gray-400" />
+          </button>
+        </div>
+
+        {/* 内容区域 */}
+        <div className="p-4 space-y-3 text-sm">
+          {!shareUrl ? (
+            <div className="text-gray-400">正在生成链接...</div>
+          ) : shareUrl.url ? (
+            <>
+              <p className="text-gray-400">
+                对比内容已压缩到链接中，不会上传到服务器。打开链接即可看到相同的对比。
+              </p>
+              <div className="flex items-center space-x-2">
+                <input
+                  readOnly
+                  value={shareUrl.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-gray-200 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center space-x-1 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>{copied ? '已复制' : '复制链接'}</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-start space-x-2 p-3 rounded border border-yellow-700 bg-yellow-900/20 text-yellow-200">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <div>
+                <div>内容过大，无法通过链接分享{shareUrl.length > 0 && `（约 ${shareUrl.length} 个字符，上限 ${MAX_SHARE_URL_LENGTH}）`}。</div>
+                <div className="text-yellow-300/80 mt-1">
+                  请下载 {HISTORY_FILE_EXTENSION} 文件发送给对方，对方在“历史记录”中导入后即可打开。
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleDownload}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              <span>下载 {HISTORY_FILE_EXTENSION} 文件</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Prism from 'prismjs';
+import { Columns2 } from 'lucide-react';
+import { getRowSegments, type ComparisonOptions, type InlineSegment } from '../lib/compareOptions';
+import type { DiffModel } from '../lib/diffModel';
+import {
+  buildFoldedItems,
+  getCenteredScrollTop,
+  ROW_HEIGHT,
+  type FoldExpandDirection,
+  type FoldRange,
+  type NavigationTarget
+} from '../lib/folding';
+import { usePrismGrammar } from '../hooks/usePrismGrammar';
+import FoldPlaceholder from './FoldPlaceholder';
+
+interface UnifiedDiffViewProps {
+  diffModel: DiffModel;
+  language: string;
+  comparisonOptions: ComparisonOptions;
+  folds: FoldRange[]; // 折叠的未修改区域
+  onExpandFold: (fold: FoldRange, direction: FoldExpandDirection) => void;
+  navigationTarget?: NavigationTarget; // 需要居中显示并闪烁提示的对齐行范围
+  onSwitchToSplit?: () => void;
+}
+
+// 统一视图中的一行：代码行或折叠的未修改区域
+type UnifiedLine =
+  | {
+      kind: 'line';
+      row: number; // 对应的对齐行
+      sign: ' ' | '-' | '+';
+      originalNumber?: number;
+      modifiedNumber?: number;
+      text: string;
+    }
+  | { kind: 'fold'; fold: FoldRange };
+
+// 虚拟滚动配置，与编辑器保持一致
+const VISIBLE_ITEMS = 30;
+const BUFFER_SIZE = 10;
+
+/**
+ * 将折叠后的对齐行展开为统一视图的行，修改行拆分为删除行与插入行
+ */
+const buildUnifiedLines = (diffModel: DiffModel, folds: FoldRange[]): UnifiedLine[] => {
+  const lines: UnifiedLine[] = [];
+
+  buildFoldedItems(diffModel.rows.length, folds).forEach(({ row, fold }) => {
+    if (fold) {
+      lines.push({ kind: 'fold', fold });
+      return;
+    }
+
+    const item = diffModel.rows[row];
+    if (item.type === 'equal') {
+      lines.push({
+        kind: 'line',
+        row,
+        sign: ' ',
+        originalNumber: item.originalIndex,
+        modifiedNumber: item.modifiedIndex,
+        text: item.modifiedLine ?? item.originalLine ?? ''
+      });
+      return;
+    }
+
+    if (item.originalIndex !== undefined) {
+      lines.push({ kind: 'line', row, sign: '-', originalNumber: item.originalIndex, text: item.originalLine ?? '' });
+    }
+    if (item.modifiedIndex !== undefined) {
+      lines.push({ kind: 'line', row, sign: '+', modifiedNumber: item.modifiedIndex, text: item.modifiedLine ?? '' });
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * 统一差异视图组件
+ * 单栏显示删除/插入行，双行号槽，修改行内标记字符级差异，未修改区域可折叠
+ */
+export default function UnifiedDiffView({
+  diffModel,
+  language,
+  comparisonOptions,
+  folds,
+  onExpandFold,
+  navigationTarget,
+  onSwitchToSplit
+}: UnifiedDiffViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const handledTargetRef = useRef<number | undefined>(undefined);
+  const [scrollTop, setScrollTop] = useState(0);
+  const { grammar, grammarName } = usePrismGrammar(language);
+
+  const lines = useMemo(() => buildUnifiedLines(diffModel, folds), [diffModel, folds]);
+
+  // 计算虚拟滚动范围
+  const startIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - BUFFER_SIZE);
+  const endIndex = Math.min(lines.length, startIndex + VISIBLE_ITEMS + BUFFER_SIZE * 2);
+  const visibleLines = lines.slice(startIndex, endIndex);
+
+  // 计算可见的修改行的字符级差异
+  const visibleSegments = useMemo(() => {
+    const segments = new Map<number, { original: InlineSegment[]; modified: InlineSegment[] }>();
+    visibleLines.forEach(line => {
+      if (line.kind !== 'line' || line.sign === ' ' || segments.has(line.row)) return;
+      const inline = getRowSegments(diffModel.rows[line.row], comparisonOptions);
+      if (inline) segments.set(line.row, inline);
+    });
+    return segments;
+  }, [visibleLines, diffModel, comparisonOptions]);
+
+  // 导航目标在统一视图中的行范围 [start, end)（导航只会定位到变更行，不会位于折叠区域内）
+  const targetRange = useMemo(() => {
+    if (!navigationTarget) return undefined;
+    const start = lines.findIndex(line => line.kind === 'line' && line.row >= navigationTarget.startRow);
+    if (start < 0) return undefined;
+    let end = start;
+    while (end < lines.length) {
+      const line = lines[end];
+      if (line.kind === 'line' && line.row >= navigationTarget.endRow) break;
+      end++;
+    }
+    return [start, Math.max(start + 1, end)] as const;
+  }, [navigationTarget, lines]);
+
+  // 将导航目标居中显示，同一目标只滚动一次
+  useEffect(() => {
+    if (!navigationTarget || !targetRange || navigationTarget.id === handledTargetRef.current) return;
+    if (containerRef.current) {
+      containerRef.current.scrollTop = getCenteredScrollTop(targetRange[0], targetRange[1], containerRef.current.clientHeight);
+    }
+    handledTargetRef.current = navigationTarget.id;
+  }, [navigationTarget, targetRange]);
+
+  // 渲染一行代码，修改行只高亮当前一侧的字符差异
+  const renderCode = (line: Extract<UnifiedLine, { kind: 'line' }>) => {
+    const inline = visibleSegments.get(line.row);
+    const segments = inline && (line.sign === '-' ? inline.original : inline.modified);
+
+    if (!segments) {
+      return <span dangerouslySetInnerHTML={{ __html: Prism.highlight(line.text, grammar, grammarName) }} />;
+    }
+
+    return (
+      <span>
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={segment.changed ? (line.sign === '-' ? 'diff-delete' : 'diff-insert') : ''}
+            dangerouslySetInnerHTML={{ __html: Prism.highlight(segment.text, grammar, grammarName) }}
+          />
+        ))}
+      </span>
+    );
+  };
+
+  if (diffModel.rows.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500 text-sm space-y-3">
+        <div>暂无对比结果，请在并排视图中输入代码</div>
+        {onSwitchToSplit && (
+          <button
+            onClick={onSwitchToSplit}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+          >
+            <Columns2 className="w-4 h-4" />
+            <span>切换到并排视图</span>
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="h-full overflow-auto font-mono text-sm leading-6"
+    >
+      <div
+        className="relative min-w-max"
+        style={{
+          paddingTop: `${8 + startIndex * ROW_HEIGHT}px`,
+          paddingBottom: `${8 + (lines.length - endIndex) * ROW_HEIGHT}px`
+        }}
+      >
+        {/* 导航目标的闪烁提示 */}
+        {navigationTarget && targetRange && (
+          <div
+            key={navigationTarget.id}
+            className="diff-flash absolute inset-x-0"
+            style={{
+              top: `${8 + targetRange[0] * ROW_HEIGHT}px`,
+              height: `${(targetRange[1] - targetRange[0]) * ROW_HEIGHT}px`
+            }}
+          />
+        )}
+
+        {visibleLines.map((line, index) => {
+          const key = startIndex + index;
+
+          if (line.kind === 'fold') {
+            return <FoldPlaceholder key={key} fold={line.fold} height={ROW_HEIGHT} onExpand={onExpandFold} />;
+          }
+
+          const isMove = diffModel.rows[line.row].type === 'move';
+          const rowClassName = isMove
+            ? 'diff-move'
+            : line.sign === '-' ? 'bg-red-500/10' : line.sign === '+' ? 'bg-green-500/10' : '';
+          return (
+            <div
+              key={key}
+              className={`flex items-start whitespace-pre ${rowClassName}`}
+              style={{ height: `${ROW_HEIGHT}px` }}
+            >
+              {/* 双行号槽 */}
+              <span className="inline-block w-12 text-right text-gray-500 select-none flex-shrink-0">
+                {line.originalNumber !== undefined ? line.originalNumber + 1 : ''}
+              </span>
+              <span className="inline-block w-12 text-right text-gray-500 select-none mr-2 flex-shrink-0">
+                {line.modifiedNumber !== undefined ? line.modifiedNumber + 1 : ''}
+              </span>
+              <span
+                className={`inline-block w-4 select-none flex-shrink-0 ${
+                  isMove ? 'text-purple-400' : line.sign === '-' ? 'text-red-400' : line.sign === '+' ? 'text-green-400' : 'text-gray-600'
+                }`}
+              >
+                {line.sign}
+              </span>
+              <div className="pr-4">{renderCode(line)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
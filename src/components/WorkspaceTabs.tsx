@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { WorkspaceSummary } from '../lib/workspace';
+
+interface WorkspaceTabsProps {
+  workspaces: WorkspaceSummary[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onClose: (id: string) => void;
+}
+
+/**
+ * 工作区标签栏组件
+ * 每个标签对应一组独立保存的对比内容，双击标签重命名
+ */
+export default function WorkspaceTabs({
+  workspaces,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onClose
+}: WorkspaceTabsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (workspace: WorkspaceSummary) => {
+    setEditingId(workspace.id);
+    setDraftName(workspace.name);
+  };
+
+  const finishRename = () => {
+    if (editingId) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  // 关闭时删除工作区内容，需要确认
+  const handleClose = (workspace: WorkspaceSummary) => {
+    if (window.confirm(`关闭工作区“${workspace.name}”？其中的内容将被删除。`)) {
+      onClose(workspace.id);
+    }
+  };
+
+  return (
+    <div className="bg-[#0d1117] border-b border-gray-700 px-2 flex items-end space-x-1 overflow-x-auto">
+      {workspaces.map(workspace => {
+        const isActive = workspace.id === activeId;
+        return (
+          <div
+            key={workspace.id}
+            onClick={() => onSelect(workspace.id)}
+            onDoubleClick={() => startRename(workspace)}
+            className={`group flex items-center space-x-1 pl-3 pr-1 py-1.5 mt-1 rounded-t text-sm cursor-pointer flex-shrink-0 transition-colors ${
+              isActive ? 'bg-[#161b22] text-gray-100' : 'text-gray-400 hover:bg-gray-800 hover:text-gray-200'
+            }`}
+            title="双击重命名"
+          >
+            {editingId === workspace.id ? (
+              <input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="w-32 px-1 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                autoFocus
+              />
+            ) : (
+              <span className="max-w-[12rem] truncate">{workspace.name}</span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClose(workspace);
+              }}
+              className={`p-0.5 rounded hover:bg-gray-700 transition-colors ${
+                isActive ? '' : 'opacity-0 group-hover:opacity-100'
+              }`}
+              title="关闭工作区"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onCreate}
+        className="p-1.5 mb-0.5 rounded text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors flex-shrink-0"
+        title="新建工作区"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import Prism from 'prismjs';
+import { getPrismGrammarName } from '../lib/languages';
+import { getLoadedGrammar, loadPrismGrammar, resolvePrismComponent } from '../lib/prismGrammars';
+
+/**
+ * 获取语言对应的 Prism 语法，尚未加载时按需加载
+ * 加载完成前使用纯文本语法，loading 为 true
+ */
+export function usePrismGrammar(language: string) {
+  const grammarName = getPrismGrammarName(language);
+  const grammar = getLoadedGrammar(grammarName);
+  const [, setLoadCount] = useState(0);
+  const [failedGrammarName, setFailedGrammarName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (getLoadedGrammar(grammarName)) return;
+
+    let active = true;
+    loadPrismGrammar(grammarName).then(loaded => {
+      if (!active) return;
+      if (loaded) {
+        // 语法已注册到 Prism.languages，重新渲染即可读取
+        setLoadCount(count => count + 1);
+      } else {
+        setFailedGrammarName(grammarName);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [grammarName]);
+
+  const loading = !grammar && resolvePrismComponent(grammarName) !== null && failedGrammarName !== grammarName;
+
+  return {
+    grammarName,
+    grammar: grammar ?? Prism.languages.plain,
+    loading
+  };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { matchShortcut, type ShortcutAction } from '../lib/shortcuts';
+
+/**
+ * 全局快捷键Hook
+ * 在 window 上监听按键，按 SHORTCUTS 中的定义分发到对应的处理函数
+ *
+ * @param handlers 各动作的处理函数，未提供的动作不拦截按键
+ */
+export function useShortcuts(handlers: Partial<Record<ShortcutAction, () => void>>) {
+  // 始终调用最新的处理函数，避免每次渲染重新绑定监听
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      const action = matchShortcut(event);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,175 @@
+import DiffMatchPatch from 'diff-match-patch';
+import type { LineDiffResult } from './lineDiff';
+
+// 空白处理方式：none 逐字比较，all 忽略所有空白，leadingTrailing 忽略行首尾空白，amount 忽略空白数量
+export type WhitespaceMode = 'none' | 'all' | 'leadingTrailing' | 'amount';
+
+// 对比选项，行对齐与行内字符差异共用
+export interface ComparisonOptions {
+  whitespace: WhitespaceMode;
+  ignoreCase: boolean;
+  normalizeLineEndings: boolean; // 将 CRLF 视为 LF
+  ignoreTrailingNewline: boolean; // 忽略文件末尾换行符的有无
+}
+
+// 行内差异片段
+export interface InlineSegment {
+  text: string;
+  changed: boolean;
+}
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+  whitespace: 'none',
+  ignoreCase: false,
+  normalizeLineEndings: true,
+  ignoreTrailingNewline: false
+};
+
+// 创建diff实例
+const dmp = new DiffMatchPatch();
+
+// 计算两个字符串的相似度
+export const calculateSimilarity = (str1: string, str2: string): number => {
+  const diffs = dmp.diff_main(str1, str2);
+  dmp.diff_cleanupSemantic(diffs);
+
+  let totalLength = 0;
+  let equalLength = 0;
+
+  diffs.forEach(([type, text]) => {
+    totalLength += text.length;
+    if (type === 0) { // 相等部分
+      equalLength += text.length;
+    }
+  });
+
+  return totalLength > 0 ? equalLength / totalLength : 0;
+};
+
+/**
+ * 按对比选项规范化单行内容
+ * 规范化后相同的两行即视为相等
+ */
+export const normalizeLine = (line: string, options: ComparisonOptions): string => {
+  let result = options.normalizeLineEndings ? line.replace(/\r$/, '') : line;
+
+  switch (options.whitespace) {
+    case 'all':
+      result = result.replace(/\s+/g, '');
+      break;
+    case 'leadingTrailing':
+      result = result.trim();
+      break;
+    case 'amount':
+      result = result.replace(/\s+$/, '').replace(/\s+/g, ' ');
+      break;
+  }
+
+  return options.ignoreCase ? result.toLowerCase() : result;
+};
+
+// 判断某个字符差异片段是否可以按选项忽略
+const isIgnorable = (text: string, atLineEdge: boolean, options: ComparisonOptions): boolean => {
+  if (options.normalizeLineEndings && text === '\r') return true;
+  if (!/^\s+$/.test(text)) return false;
+  if (options.whitespace === 'all' || options.whitespace === 'amount') return true;
+  return options.whitespace === 'leadingTrailing' && atLineEdge;
+};
+
+// 合并相邻且状态相同的片段
+const mergeSegments = (segments: InlineSegment[]): InlineSegment[] => {
+  const merged: InlineSegment[] = [];
+  segments.forEach(segment => {
+    const last = merged[merged.length - 1];
+    if (last && last.changed === segment.changed) {
+      last.text += segment.text;
+    } else if (segment.text) {
+      merged.push({ ...segment });
+    }
+  });
+  return merged;
+};
+
+/**
+ * 计算一对对齐行的字符级差异
+ * 分别返回原始行与修改行的片段，只包含各自一侧的文本
+ */
+export const computeInlineDiff = (
+  originalLine: string,
+  modifiedLine: string,
+  options: ComparisonOptions
+): { original: InlineSegment[]; modified: InlineSegment[] } => {
+  if (normalizeLine(originalLine, options) === normalizeLine(modifiedLine, options)) {
+    return {
+      original: originalLine ? [{ text: originalLine, changed: false }] : [],
+      modified: modifiedLine ? [{ text: modifiedLine, changed: false }] : []
+    };
+  }
+
+  // 忽略大小写时在小写文本上求差异，长度不变才能映射回原文
+  const lowerOriginal = originalLine.toLowerCase();
+  const lowerModified = modifiedLine.toLowerCase();
+  const useLower = options.ignoreCase &&
+    lowerOriginal.length === originalLine.length &&
+    lowerModified.length === modifiedLine.length;
+
+  const diffs = dmp.diff_main(useLower ? lowerOriginal : originalLine, useLower ? lowerModified : modifiedLine);
+  dmp.diff_cleanupSemantic(diffs);
+
+  const original: InlineSegment[] = [];
+  const modified: InlineSegment[] = [];
+  let originalOffset = 0;
+  let modifiedOffset = 0;
+
+  diffs.forEach(([type, compared]) => {
+    if (type === 0) {
+      original.push({ text: originalLine.slice(originalOffset, originalOffset + compared.length), changed: false });
+      modified.push({ text: modifiedLine.slice(modifiedOffset, modifiedOffset + compared.length), changed: false });
+      originalOffset += compared.length;
+      modifiedOffset += compared.length;
+    } else if (type === -1) {
+      const text = originalLine.slice(originalOffset, originalOffset + compared.length);
+      const atEdge = originalOffset === 0 || originalOffset + text.length === originalLine.length;
+      original.push({ text, changed: !isIgnorable(text, atEdge, options) });
+      originalOffset += compared.length;
+    } else {
+      const text = modifiedLine.slice(modifiedOffset, modifiedOffset + compared.length);
+      const atEdge = modifiedOffset === 0 || modifiedOffset + text.length === modifiedLine.length;
+      modified.push({ text, changed: !isIgnorable(text, atEdge, options) });
+      modifiedOffset += compared.length;
+    }
+  });
+
+  return { original: mergeSegments(original), modified: mergeSegments(modified) };
+};
+
+// 按列范围把一行切分为片段
+export const rangesToSegments = (line: string, ranges: [number, number][]): InlineSegment[] => {
+  const segments: InlineSegment[] = [];
+  let offset = 0;
+  ranges.forEach(([start, end]) => {
+    segments.push({ text: line.slice(offset, start), changed: false });
+    segments.push({ text: line.slice(Math.max(offset, start), end), changed: true });
+    offset = Math.max(offset, end);
+  });
+  segments.push({ text: line.slice(offset), changed: false });
+  return mergeSegments(segments);
+};
+
+/**
+ * 获取一个对齐行两侧的行内差异片段
+ * 语法感知对比给出的列范围优先，否则修改行按字符求差异；无需行内高亮时返回 null
+ */
+export const getRowSegments = (
+  row: LineDiffResult,
+  options: ComparisonOptions
+): { original: InlineSegment[]; modified: InlineSegment[] } | null => {
+  if (row.originalRanges || row.modifiedRanges) {
+    return {
+      original: rangesToSegments(row.originalLine ?? '', row.originalRanges ?? []),
+      modified: rangesToSegments(row.modifiedLine ?? '', row.modifiedRanges ?? [])
+    };
+  }
+  if (row.type !== 'modify') return null;
+  return computeInlineDiff(row.originalLine ?? '', row.modifiedLine ?? '', options);
+};
@@ -0,0 +1,177 @@
+import { DEFAULT_COMPARISON_OPTIONS } from './compareOptions';
+import type { HistoryRecord } from './history';
+import { EMPTY_WORKSPACE_VIEW, type Workspace, type WorkspaceView } from './workspace';
+
+// IndexedDB 数据库与对象仓库
+const DB_NAME = 'codecheckup';
+const DB_VERSION = 3;
+const HISTORY_STORE = 'history';
+const WORKSPACE_STORE = 'workspaces'; // 版本 2 新增
+const WORKSPACE_VIEW_STORE = 'workspaceViews'; // 版本 3 新增，以工作区 id 为键
+
+// 单独保存的视图位置
+interface StoredWorkspaceView {
+  id: string;
+  view: WorkspaceView;
+}
+
+// 旧版本保存在 localStorage 中的历史记录
+const LEGACY_HISTORY_KEY = 'codecheckup_history';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// 打开数据库，首次打开或版本升级时创建缺少的对象仓库
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(WORKSPACE_VIEW_STORE)) {
+          db.createObjectStore(WORKSPACE_VIEW_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// 在一个事务中执行写操作，事务提交后完成；涉及多个对象仓库时全部写入或全部不写入
+const runTransaction = async (storeNames: string | string[], action: (transaction: IDBTransaction) => void): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    action(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// 执行只读请求
+const runRequest = async <T>(storeName: string, query: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = query(db.transaction(storeName).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 读取全部历史记录，按时间从新到旧
+export const getAllHistoryRecords = async (): Promise<HistoryRecord[]> => {
+  const records = await runRequest<HistoryRecord[]>(HISTORY_STORE, store => store.getAll());
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// 新增或覆盖历史记录
+export const putHistoryRecords = (records: HistoryRecord[]): Promise<void> => {
+  if (records.length === 0) return Promise.resolve();
+  return runTransaction(HISTORY_STORE, transaction => {
+    const store = transaction.objectStore(HISTORY_STORE);
+    records.forEach(record => store.put(record));
+  });
+};
+
+// 删除历史记录
+export const deleteHistoryRecords = (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return runTransaction(HISTORY_STORE, transaction => {
+    const store = transaction.objectStore(HISTORY_STORE);
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+/**
+ * 将 localStorage 中的旧历史记录迁移到 IndexedDB
+ * 写入成功后才删除旧数据，迁移失败时下次启动会重试
+ */
+export const migrateLegacyHistory = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (stored === null) return;
+
+  let records: HistoryRecord[] = [];
+  try {
+    const data = JSON.parse(stored);
+    if (Array.isArray(data)) {
+      records = data.filter(record => typeof record?.id === 'string' && typeof record?.timestamp === 'number');
+    }
+  } catch (error) {
+    console.error('Failed to parse legacy history:', error);
+  }
+
+  await putHistoryRecords(records);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+// 忽略内容不完整的工作区，缺少的对比选项与视图位置使用默认值；版本 2 的视图位置保存在工作区中
+const restoreWorkspace = (
+  value: (Omit<Workspace, 'view'> & { view?: WorkspaceView }) | undefined,
+  stored: StoredWorkspaceView | undefined
+): Workspace | undefined => {
+  if (typeof value?.id !== 'string' || typeof value.originalCode !== 'string' || typeof value.modifiedCode !== 'string') {
+    return undefined;
+  }
+  return {
+    ...value,
+    comparisonOptions: { ...DEFAULT_COMPARISON_OPTIONS, ...value.comparisonOptions },
+    view: { ...EMPTY_WORKSPACE_VIEW, ...value.view, ...stored?.view }
+  };
+};
+
+// 读取全部工作区，按创建时间排列
+export const getAllWorkspaces = async (): Promise<Workspace[]> => {
+  const [workspaces, views] = await Promise.all([
+    runRequest<Workspace[]>(WORKSPACE_STORE, store => store.getAll()),
+    runRequest<StoredWorkspaceView[]>(WORKSPACE_VIEW_STORE, store => store.getAll())
+  ]);
+  const viewById = new Map(views.map(stored => [stored.id, stored]));
+  return workspaces
+    .map(workspace => restoreWorkspace(workspace, viewById.get(workspace?.id)))
+    .filter((workspace): workspace is Workspace => !!workspace)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// 读取单个工作区
+export const getWorkspace = async (id: string): Promise<Workspace | undefined> => {
+  const [workspace, stored] = await Promise.all([
+    runRequest<Workspace | undefined>(WORKSPACE_STORE, store => store.get(id)),
+    runRequest<StoredWorkspaceView | undefined>(WORKSPACE_VIEW_STORE, store => store.get(id))
+  ]);
+  return restoreWorkspace(workspace, stored);
+};
+
+// 新增或覆盖工作区，内容与视图位置在一个事务中写入，不会留下只写了一半的内容
+export const putWorkspace = ({ view, ...workspace }: Workspace): Promise<void> => {
+  return runTransaction([WORKSPACE_STORE, WORKSPACE_VIEW_STORE], transaction => {
+    transaction.objectStore(WORKSPACE_STORE).put(workspace);
+    transaction.objectStore(WORKSPACE_VIEW_STORE).put({ id: workspace.id, view });
+  });
+};
+
+// 只更新工作区的视图位置
+export const putWorkspaceView = (id: string, view: WorkspaceView): Promise<void> => {
+  return runTransaction(WORKSPACE_VIEW_STORE, transaction => {
+    transaction.objectStore(WORKSPACE_VIEW_STORE).put({ id, view });
+  });
+};
+
+// 删除工作区及其视图位置
+export const deleteWorkspace = (id: string): Promise<void> => {
+  return runTransaction([WORKSPACE_STORE, WORKSPACE_VIEW_STORE], transaction => {
+    transaction.objectStore(WORKSPACE_STORE).delete(id);
+    transaction.objectStore(WORKSPACE_VIEW_STORE).delete(id);
+  });
+};
@@ -0,0 +1,106 @@
+import type { LineDiffResult } from './lineDiff';
+import { groupHunks, type DiffHunk } from './hunks';
+
+// 对比的一侧
+export type DiffSide = 'original' | 'modified';
+
+/**
+ * 对齐后的差异模型
+ * rows 中每一项对应两侧编辑器中同一高度的一行，某侧缺少行号时该侧显示为填充行
+ * 所有行号与对齐行下标均从0开始
+ */
+export interface DiffModel {
+  originalCode: string; // 计算该模型时的代码快照
+  modifiedCode: string;
+  rows: LineDiffResult[];
+  hunks: DiffHunk[];
+  originalLineToRow: number[]; // 原始代码行号到对齐行的映射
+  modifiedLineToRow: number[];
+  changedRows: number[]; // 有差异的对齐行
+}
+
+export const EMPTY_DIFF_MODEL: DiffModel = {
+  originalCode: '',
+  modifiedCode: '',
+  rows: [],
+  hunks: [],
+  originalLineToRow: [],
+  modifiedLineToRow: [],
+  changedRows: []
+};
+
+/**
+ * 根据行对齐结果构建差异模型
+ */
+export const buildDiffModel = (
+  originalCode: string,
+  modifiedCode: string,
+  rows: LineDiffResult[]
+): DiffModel => {
+  const originalLineToRow: number[] = [];
+  const modifiedLineToRow: number[] = [];
+  const changedRows: number[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.originalIndex !== undefined) originalLineToRow[row.originalIndex] = index;
+    if (row.modifiedIndex !== undefined) modifiedLineToRow[row.modifiedIndex] = index;
+    if (row.type !== 'equal') changedRows.push(index);
+  });
+
+  return {
+    originalCode,
+    modifiedCode,
+    rows,
+    hunks: groupHunks(rows),
+    originalLineToRow,
+    modifiedLineToRow,
+    changedRows
+  };
+};
+
+// 对齐行在指定一侧的行号，填充行返回 undefined
+export const getRowLineIndex = (row: LineDiffResult, side: DiffSide): number | undefined => {
+  return side === 'original' ? row.originalIndex : row.modifiedIndex;
+};
+
+// 对齐行在指定一侧的文本
+export const getRowLine = (row: LineDiffResult, side: DiffSide): string | undefined => {
+  return side === 'original' ? row.originalLine : row.modifiedLine;
+};
+
+// 模型是否仍对应指定一侧的当前代码
+export const isModelCurrent = (model: DiffModel, side: DiffSide, code: string): boolean => {
+  if (model.rows.length === 0) return false;
+  return (side === 'original' ? model.originalCode : model.modifiedCode) === code;
+};
+
+/**
+ * 行号转换为对齐行，超出模型范围的行按一行对一行顺延
+ */
+export const lineToRow = (model: DiffModel, side: DiffSide, line: number): number => {
+  const map = side === 'original' ? model.originalLineToRow : model.modifiedLineToRow;
+  if (line < 0) return line;
+  if (line < map.length) return map[line];
+  return model.rows.length + line - map.length;
+};
+
+/**
+ * 对齐行转换为行号：返回该行或其后第一个属于该侧的行
+ */
+export const rowToLine = (model: DiffModel, side: DiffSide, row: number): number => {
+  const map = side === 'original' ? model.originalLineToRow : model.modifiedLineToRow;
+  if (row >= model.rows.length) return map.length + row - model.rows.length;
+
+  // 映射单调递增，二分查找
+  let low = 0;
+  let high = map.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (map[middle] < row) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
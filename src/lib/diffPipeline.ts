@@ -0,0 +1,118 @@
+import {
+  computeLineDiff,
+  type DiffProgressCallback,
+  type DiffType,
+  type LineDiffOptions,
+  type LineDiffResult
+} from './lineDiff';
+import { normalizeForDiff, type NormalizeOptions } from './normalize';
+import { applySyntaxDiff, type SyntaxLanguage } from './syntaxDiff';
+
+// 完整的对比选项：normalize 指定时先格式化两侧再对齐，syntax 指定时在对齐之后按语法修正差异
+export type DiffRequestOptions = LineDiffOptions & {
+  normalize?: NormalizeOptions;
+  syntax?: SyntaxLanguage;
+};
+
+/**
+ * 把格式化后文本上的对齐结果映射回原文
+ * 原文行只要有一个对应的格式化行发生变化即视为变化；格式化后相同的行按相等处理
+ */
+export const projectRowsToRaw = (
+  rows: LineDiffResult[],
+  originalMap: number[],
+  modifiedMap: number[],
+  originalLines: string[],
+  modifiedLines: string[]
+): LineDiffResult[] => {
+  const originalChanged = new Uint8Array(originalLines.length);
+  const modifiedChanged = new Uint8Array(modifiedLines.length);
+  rows.forEach(row => {
+    if (row.type === 'equal') return;
+    if (row.originalIndex !== undefined) originalChanged[originalMap[row.originalIndex]] = 1;
+    if (row.modifiedIndex !== undefined) modifiedChanged[modifiedMap[row.modifiedIndex]] = 1;
+  });
+
+  const result: LineDiffResult[] = [];
+  let nextOriginal = 0;
+  let nextModified = 0;
+
+  const emit = (originalIndex?: number, modifiedIndex?: number) => {
+    const hasOriginal = originalIndex !== undefined;
+    const hasModified = modifiedIndex !== undefined;
+    const changed = (hasOriginal && originalChanged[originalIndex]) || (hasModified && modifiedChanged[modifiedIndex]);
+    let type: DiffType = 'equal';
+    if (changed) type = !hasOriginal ? 'insert' : !hasModified ? 'delete' : 'modify';
+
+    result.push({
+      type,
+      originalLine: hasOriginal ? originalLines[originalIndex] : undefined,
+      modifiedLine: hasModified ? modifiedLines[modifiedIndex] : undefined,
+      originalIndex,
+      modifiedIndex
+    });
+    if (hasOriginal) nextOriginal = originalIndex + 1;
+    if (hasModified) nextModified = modifiedIndex + 1;
+  };
+
+  // 输出尚未对应到的原文行，两侧变化状态相同时配成一行
+  const flushUntil = (originalEnd: number, modifiedEnd: number) => {
+    while (nextOriginal < originalEnd || nextModified < modifiedEnd) {
+      const hasOriginal = nextOriginal < originalEnd;
+      const hasModified = nextModified < modifiedEnd;
+      if (hasOriginal && hasModified && originalChanged[nextOriginal] === modifiedChanged[nextModified]) {
+        emit(nextOriginal, nextModified);
+      } else if (hasOriginal) {
+        emit(nextOriginal, undefined);
+      } else {
+        emit(undefined, nextModified);
+      }
+    }
+  };
+
+  rows.forEach(row => {
+    const originalIndex = row.originalIndex !== undefined ? originalMap[row.originalIndex] : undefined;
+    const modifiedIndex = row.modifiedIndex !== undefined ? modifiedMap[row.modifiedIndex] : undefined;
+    // 同一原文行可能对应多个格式化行，只在第一次出现时输出
+    const needOriginal = originalIndex !== undefined && originalIndex >= nextOriginal;
+    const needModified = modifiedIndex !== undefined && modifiedIndex >= nextModified;
+    if (!needOriginal && !needModified) return;
+
+    flushUntil(needOriginal ? originalIndex : nextOriginal, needModified ? modifiedIndex : nextModified);
+    emit(needOriginal ? originalIndex : undefined, needModified ? modifiedIndex : undefined);
+  });
+  flushUntil(originalLines.length, modifiedLines.length);
+
+  return result;
+};
+
+/**
+ * 计算两段代码的对齐结果
+ * Worker 与主线程退回路径共用同一流程
+ */
+export const computeDiffRows = (
+  original: string,
+  modified: string,
+  options: DiffRequestOptions,
+  onProgress?: DiffProgressCallback
+): LineDiffResult[] => {
+  const originalLines = original.split('\n');
+  const modifiedLines = modified.split('\n');
+  let rows: LineDiffResult[];
+
+  if (options.normalize) {
+    const normalizedOriginal = normalizeForDiff(original, options.normalize);
+    const normalizedModified = normalizeForDiff(modified, options.normalize);
+    rows = projectRowsToRaw(
+      computeLineDiff(normalizedOriginal.lines, normalizedModified.lines, options, onProgress),
+      normalizedOriginal.lineMap,
+      normalizedModified.lineMap,
+      originalLines,
+      modifiedLines
+    );
+  } else {
+    rows = computeLineDiff(originalLines, modifiedLines, options, onProgress);
+  }
+
+  return options.syntax ? applySyntaxDiff(rows, original, modified, options.syntax) : rows;
+};
@@ -0,0 +1,105 @@
+import { getRowSegments, type ComparisonOptions, type InlineSegment } from './compareOptions';
+import type { DiffModel } from './diffModel';
+
+// 变更分布直方图的分段数
+export const HISTOGRAM_BUCKETS = 20;
+
+// 对比结果的统计
+export interface DiffStats {
+  insertedLines: number;
+  deletedLines: number;
+  modifiedLines: number; // 修改行按对齐行计数，两侧各一行算一处
+  movedLines: number;
+  hunks: number;
+  charactersAdded: number;
+  charactersRemoved: number;
+  similarity: number; // 0~1，两侧未改变的字符占全部字符的比例
+  histogram: number[]; // 按对齐行位置等分后各段中的差异行数
+}
+
+// 行的字符数，换行符计为一个字符，使空行的增删同样计入
+const lineWeight = (line: string | undefined): number => (line ?? '').length + 1;
+
+// 行内片段中改变与未改变的字符数
+const countSegments = (segments: InlineSegment[]) => {
+  let changed = 0;
+  let unchanged = 0;
+  segments.forEach(segment => {
+    if (segment.changed) {
+      changed += segment.text.length;
+    } else {
+      unchanged += segment.text.length;
+    }
+  });
+  return { changed, unchanged };
+};
+
+/**
+ * 根据差异模型计算统计数据
+ * 相似度沿用 calculateSimilarity 的思路：相同部分的长度除以两侧总长度
+ */
+export const computeDiffStats = (
+  model: DiffModel,
+  options: ComparisonOptions,
+  buckets: number = HISTOGRAM_BUCKETS
+): DiffStats => {
+  const stats: DiffStats = {
+    insertedLines: 0,
+    deletedLines: 0,
+    modifiedLines: 0,
+    movedLines: 0,
+    hunks: model.hunks.length,
+    charactersAdded: 0,
+    charactersRemoved: 0,
+    similarity: 1,
+    histogram: new Array(buckets).fill(0)
+  };
+
+  let totalCharacters = 0;
+  let equalCharacters = 0;
+
+  model.rows.forEach((row, index) => {
+    const originalWeight = row.originalIndex !== undefined ? lineWeight(row.originalLine) : 0;
+    const modifiedWeight = row.modifiedIndex !== undefined ? lineWeight(row.modifiedLine) : 0;
+    totalCharacters += originalWeight + modifiedWeight;
+
+    if (row.type === 'equal') {
+      equalCharacters += originalWeight + modifiedWeight;
+      return;
+    }
+
+    stats.histogram[Math.min(buckets - 1, Math.floor((index / model.rows.length) * buckets))]++;
+
+    if (row.type === 'insert') {
+      stats.insertedLines++;
+      stats.charactersAdded += modifiedWeight;
+      return;
+    }
+    if (row.type === 'delete') {
+      stats.deletedLines++;
+      stats.charactersRemoved += originalWeight;
+      return;
+    }
+
+    // 修改行与移动的行只统计行内改变的字符，移动本身不改变内容
+    if (row.type === 'modify') stats.modifiedLines++;
+    if (row.type === 'move') stats.movedLines++;
+    const segments = getRowSegments(row, options);
+    if (!segments) {
+      equalCharacters += originalWeight + modifiedWeight;
+      return;
+    }
+    const original = countSegments(segments.original);
+    const modified = countSegments(segments.modified);
+    stats.charactersRemoved += original.changed;
+    stats.charactersAdded += modified.changed;
+    // 换行符视为未改变
+    equalCharacters += original.unchanged + modified.unchanged + (originalWeight > 0 ? 1 : 0) + (modifiedWeight > 0 ? 1 : 0);
+  });
+
+  if (totalCharacters > 0) stats.similarity = equalCharacters / totalCharacters;
+  return stats;
+};
+
+// 相似度的百分比文本
+export const formatSimilarity = (similarity: number): string => `${Math.floor(similarity * 1000) / 10}%`;
@@ -0,0 +1,101 @@
+import type { DiffProgressCallback, LineDiffResult } from './lineDiff';
+import { computeDiffRows, type DiffRequestOptions } from './diffPipeline';
+
+// 发送给 Worker 的对比请求
+export interface DiffWorkerRequest {
+  id: number;
+  original: string;
+  modified: string;
+  options: DiffRequestOptions;
+}
+
+// Worker 返回的消息
+export type DiffWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; lineDiffs: LineDiffResult[] }
+  | { id: number; type: 'error'; message: string };
+
+// 正在进行中的对比任务
+interface PendingDiff {
+  id: number;
+  resolve: (result: LineDiffResult[] | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: DiffProgressCallback;
+}
+
+let worker: Worker | null = null;
+let pending: PendingDiff | null = null;
+let nextRequestId = 0;
+
+// 处理 Worker 消息，忽略已被取消的旧请求
+const handleMessage = (event: MessageEvent<DiffWorkerResponse>) => {
+  const message = event.data;
+  if (!pending || message.id !== pending.id) return;
+
+  if (message.type === 'progress') {
+    pending.onProgress?.(message.progress);
+    return;
+  }
+
+  const { resolve, reject } = pending;
+  pending = null;
+  if (message.type === 'result') {
+    resolve(message.lineDiffs);
+  } else {
+    reject(new Error(message.message));
+  }
+};
+
+// 懒加载 Worker 实例
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/diffWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      const task = pending;
+      pending = null;
+      worker?.terminate();
+      worker = null;
+      task?.reject(new Error(event.message || 'Diff worker crashed'));
+    };
+  }
+  return worker;
+};
+
+/**
+ * 取消正在进行的对比
+ * 同步计算无法中途打断，因此直接终止 Worker，下次对比时重新创建
+ */
+export const cancelLineDiff = () => {
+  if (!pending) return;
+  const { resolve } = pending;
+  pending = null;
+  worker?.terminate();
+  worker = null;
+  resolve(null);
+};
+
+/**
+ * 在 Worker 中计算行差异
+ * 新请求会取消尚未完成的旧请求，被取消的请求返回 null
+ */
+export const runLineDiff = (
+  original: string,
+  modified: string,
+  options: DiffRequestOptions,
+  onProgress?: DiffProgressCallback
+): Promise<LineDiffResult[] | null> => {
+  cancelLineDiff();
+
+  // 不支持 Worker 的环境退回主线程计算
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(computeDiffRows(original, modified, options, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = ++nextRequestId;
+    pending = { id, resolve, reject, onProgress };
+    const request: DiffWorkerRequest = { id, original, modified, options };
+    getWorker().postMessage(request);
+  });
+};
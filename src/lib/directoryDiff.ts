@@ -0,0 +1,138 @@
+import { computeLineDiff } from './lineDiff';
+
+// 目录或压缩包中的一个文件，content 为 null 表示二进制或过大的文件
+export interface SourceFile {
+  path: string; // 相对于根目录的路径，使用 / 分隔
+  content: string | null;
+  size: number;
+  digest: string; // 内容摘要，用于判断二进制文件是否相同
+}
+
+// 一侧的文件来源：文件夹或 ZIP 压缩包
+export interface FileSource {
+  name: string;
+  files: SourceFile[];
+}
+
+export type FileStatus = 'added' | 'removed' | 'modified' | 'identical';
+
+// 两侧同一路径文件的对比结果
+export interface FileComparison {
+  path: string;
+  status: FileStatus;
+  original?: SourceFile;
+  modified?: SourceFile;
+  additions: number;
+  deletions: number;
+}
+
+// 文件树节点，目录节点汇总其下所有文件的变更
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children: FileTreeNode[]; // 文件节点为空数组
+  file?: FileComparison;
+  status: FileStatus;
+  additions: number;
+  deletions: number;
+}
+
+// 统计两段文本的新增/删除行数
+const countLineChanges = (original: string, modified: string) => {
+  let additions = 0;
+  let deletions = 0;
+  computeLineDiff(original.split('\n'), modified.split('\n'), { algorithm: 'myers' }).forEach(row => {
+    if (row.type === 'equal') return;
+    if (row.modifiedIndex !== undefined) additions++;
+    if (row.originalIndex !== undefined) deletions++;
+  });
+  return { additions, deletions };
+};
+
+// 文本行数，末尾换行不计入
+const countLines = (content: string | null): number => {
+  if (!content) return 0;
+  return content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+};
+
+/**
+ * 按路径对比两侧的文件
+ * 结果按路径排序，文本文件同时统计新增/删除行数
+ */
+export const compareFileSources = (original: FileSource, modified: FileSource): FileComparison[] => {
+  const originalByPath = new Map(original.files.map(file => [file.path, file]));
+  const modifiedByPath = new Map(modified.files.map(file => [file.path, file]));
+  const paths = [...new Set([...originalByPath.keys(), ...modifiedByPath.keys()])].sort();
+
+  return paths.map((path): FileComparison => {
+    const before = originalByPath.get(path);
+    const after = modifiedByPath.get(path);
+
+    if (!before) return { path, status: 'added', modified: after, additions: countLines(after.content), deletions: 0 };
+    if (!after) return { path, status: 'removed', original: before, additions: 0, deletions: countLines(before.content) };
+
+    const identical = before.content !== null && after.content !== null
+      ? before.content === after.content
+      : before.digest === after.digest;
+    if (identical) return { path, status: 'identical', original: before, modified: after, additions: 0, deletions: 0 };
+
+    const counts = before.content !== null && after.content !== null
+      ? countLineChanges(before.content, after.content)
+      : { additions: 0, deletions: 0 };
+    return { path, status: 'modified', original: before, modified: after, ...counts };
+  });
+};
+
+// 目录的状态：子节点全部新增/删除时沿用，全部相同时为相同，否则为修改
+const summarizeStatus = (children: FileTreeNode[]): FileStatus => {
+  const statuses = new Set(children.map(child => child.status));
+  if (statuses.size <= 1) return [...statuses][0] ?? 'identical';
+  return 'modified';
+};
+
+/**
+ * 将对比结果组织为文件树
+ * 目录排在文件之前，同类按名称排序
+ */
+export const buildFileTree = (files: FileComparison[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', children: [], status: 'identical', additions: 0, deletions: 0 };
+
+  files.forEach(file => {
+    const segments = file.path.split('/');
+    let parent = root;
+    segments.slice(0, -1).forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join('/');
+      let directory = parent.children.find(child => child.path === path && !child.file);
+      if (!directory) {
+        directory = { name: segment, path, children: [], status: 'identical', additions: 0, deletions: 0 };
+        parent.children.push(directory);
+      }
+      parent = directory;
+    });
+    parent.children.push({
+      name: segments[segments.length - 1],
+      path: file.path,
+      children: [],
+      file,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions
+    });
+  });
+
+  // 自底向上汇总目录状态并排序
+  const finalize = (node: FileTreeNode) => {
+    if (node.file) return;
+    node.children.forEach(finalize);
+    node.children.sort((a, b) => {
+      if (!a.file !== !b.file) return a.file ? 1 : -1;
+      return a.name.localeCompare(b.name);
+    });
+    node.status = summarizeStatus(node.children);
+    node.additions = node.children.reduce((sum, child) => sum + child.additions, 0);
+    node.deletions = node.children.reduce((sum, child) => sum + child.deletions, 0);
+  };
+  finalize(root);
+
+  return root.children;
+};
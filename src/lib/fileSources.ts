@@ -0,0 +1,121 @@
+import type { FileSource, SourceFile } from './directoryDiff';
+import { readZip } from './zip';
+
+// 超过该大小的文件不读取内容，只比较摘要
+const MAX_TEXT_FILE_SIZE = 2 * 1024 * 1024;
+
+// 读取目录时跳过的目录
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', '.svn', '.hg']);
+
+// FNV-1a 摘要，足以区分二进制文件是否相同
+const computeDigest = (data: Uint8Array): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < data.length; index++) {
+    hash ^= data[index];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${data.length}:${(hash >>> 0).toString(16)}`;
+};
+
+// 前 8000 字节中包含空字符即视为二进制文件
+const isBinary = (data: Uint8Array): boolean => data.subarray(0, 8000).includes(0);
+
+// 由文件内容创建源文件
+const toSourceFile = (path: string, data: Uint8Array): SourceFile => {
+  const readable = data.length <= MAX_TEXT_FILE_SIZE && !isBinary(data);
+  return {
+    path,
+    content: readable ? new TextDecoder().decode(data) : null,
+    size: data.length,
+    digest: computeDigest(data)
+  };
+};
+
+// 路径是否位于忽略的目录中
+const isIgnoredPath = (path: string): boolean => path.split('/').some(segment => IGNORED_DIRECTORIES.has(segment));
+
+// 所有文件都位于同一个顶层目录时去掉该目录，使两侧路径可以对应
+const stripCommonRoot = (files: SourceFile[]): SourceFile[] => {
+  const roots = new Set(files.map(file => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+  if (roots.size !== 1 || roots.has('')) return files;
+  const [root] = [...roots];
+  return files.map(file => ({ ...file, path: file.path.slice(root.length + 1) }));
+};
+
+const readFileBytes = async (file: File): Promise<Uint8Array> => new Uint8Array(await file.arrayBuffer());
+
+/**
+ * 读取 ZIP 压缩包
+ */
+export const readZipSource = async (file: File): Promise<FileSource> => {
+  const entries = await readZip(await file.arrayBuffer());
+  const files = entries
+    .filter(entry => !isIgnoredPath(entry.path) && !entry.path.startsWith('__MACOSX/'))
+    .map(entry => toSourceFile(entry.path, entry.data));
+  return { name: file.name, files: stripCommonRoot(files) };
+};
+
+/**
+ * 读取通过 webkitdirectory 文件选择框选择的文件夹
+ */
+export const readDirectoryInput = async (fileList: FileList): Promise<FileSource> => {
+  const selected = Array.from(fileList).filter(file => !isIgnoredPath(file.webkitRelativePath));
+  const files = await Promise.all(
+    selected.map(async file => toSourceFile(file.webkitRelativePath || file.name, await readFileBytes(file)))
+  );
+  const name = selected[0]?.webkitRelativePath.split('/')[0] || '文件夹';
+  return { name, files: stripCommonRoot(files) };
+};
+
+// 读取目录项下的全部子项（readEntries 每次只返回一部分，需要反复调用）
+const readAllEntries = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  return new Promise((resolve, reject) => {
+    const readBatch = () => {
+      reader.readEntries(batch => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+    readBatch();
+  });
+};
+
+// 递归收集目录项下的文件
+const collectEntryFiles = async (entry: FileSystemEntry, prefix: string, files: SourceFile[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    files.push(toSourceFile(prefix + entry.name, await readFileBytes(file)));
+    return;
+  }
+  if (IGNORED_DIRECTORIES.has(entry.name)) return;
+  const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+  for (const child of children) {
+    await collectEntryFiles(child, `${prefix}${entry.name}/`, files);
+  }
+};
+
+/**
+ * 读取拖放的文件夹或 ZIP 压缩包
+ * 无法识别时返回 null
+ */
+export const readDroppedSource = async (dataTransfer: DataTransfer): Promise<FileSource | null> => {
+  const entry = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .find(Boolean);
+
+  if (entry?.isDirectory) {
+    const files: SourceFile[] = [];
+    await collectEntryFiles(entry, '', files);
+    return { name: entry.name, files: stripCommonRoot(files) };
+  }
+
+  const file = dataTransfer.files[0];
+  if (file && /\.zip$/i.test(file.name)) return readZipSource(file);
+  return null;
+};
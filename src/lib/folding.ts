@@ -0,0 +1,149 @@
+import type { LineDiffResult } from './lineDiff';
+
+// 折叠的未修改区域，隐藏 [startRow, endRow) 范围内的对齐行
+export interface FoldRange {
+  runStart: number; // 所属连续未修改区间的起始行，用于记录展开状态
+  startRow: number;
+  endRow: number;
+}
+
+// 每个未修改区间额外展开的行数：top 为紧接上方变更向下展开，bottom 为紧接下方变更向上展开
+export interface FoldExpansion {
+  top: number;
+  bottom: number;
+}
+
+export type FoldExpandDirection = 'up' | 'down' | 'all';
+
+// 折叠后的显示项：普通对齐行或折叠占位行
+export type FoldedItem = { row: number; fold?: undefined } | { row?: undefined; fold: FoldRange };
+
+export const DEFAULT_CONTEXT_LINES = 3;
+export const FOLD_EXPAND_STEP = 20; // 每次向上/向下展开的行数
+
+// 编辑器与统一视图中每个显示行的高度（像素），滚动位置均按该高度换算
+export const ROW_HEIGHT = 24;
+
+// 导航目标：需要居中显示并闪烁提示的对齐行范围 [startRow, endRow)，id 用于区分重复跳转到同一位置
+export interface NavigationTarget {
+  startRow: number;
+  endRow: number;
+  id: number;
+}
+
+/**
+ * 计算需要折叠的未修改区域
+ * 每段连续的 equal 行在变更前后各保留 contextLines 行，文件首尾不保留；只隐藏一行时不折叠
+ */
+export const computeFolds = (
+  rows: LineDiffResult[],
+  contextLines: number,
+  expansions: Record<number, FoldExpansion>
+): FoldRange[] => {
+  const folds: FoldRange[] = [];
+  let row = 0;
+
+  while (row < rows.length) {
+    if (rows[row].type !== 'equal') {
+      row++;
+      continue;
+    }
+
+    let end = row;
+    while (end < rows.length && rows[end].type === 'equal') end++;
+
+    const expansion = expansions[row] ?? { top: 0, bottom: 0 };
+    const startRow = row + (row === 0 ? 0 : contextLines) + expansion.top;
+    const endRow = end - (end === rows.length ? 0 : contextLines) - expansion.bottom;
+
+    if (endRow - startRow > 1) {
+      folds.push({ runStart: row, startRow, endRow });
+    }
+    row = end;
+  }
+
+  return folds;
+};
+
+/**
+ * 展开折叠区域，返回新的展开状态
+ */
+export const expandFold = (
+  expansions: Record<number, FoldExpansion>,
+  fold: FoldRange,
+  direction: FoldExpandDirection,
+  step = FOLD_EXPAND_STEP
+): Record<number, FoldExpansion> => {
+  const current = expansions[fold.runStart] ?? { top: 0, bottom: 0 };
+  const next = { ...current };
+
+  if (direction === 'all') {
+    next.top = Infinity;
+  } else if (direction === 'down') {
+    next.top += step;
+  } else {
+    next.bottom += step;
+  }
+
+  return { ...expansions, [fold.runStart]: next };
+};
+
+// 生成折叠后的显示项
+export const buildFoldedItems = (rowCount: number, folds: FoldRange[]): FoldedItem[] => {
+  const items: FoldedItem[] = [];
+  let foldIndex = 0;
+
+  for (let row = 0; row < rowCount; row++) {
+    const fold = folds[foldIndex];
+    if (fold && row === fold.startRow) {
+      items.push({ fold });
+      row = fold.endRow - 1;
+      foldIndex++;
+    } else {
+      items.push({ row });
+    }
+  }
+
+  return items;
+};
+
+// 对齐行在折叠后的显示位置，被折叠的行返回所在占位行的位置
+export const rowToDisplayIndex = (folds: FoldRange[], row: number): number => {
+  let hidden = 0;
+  for (const fold of folds) {
+    if (row < fold.startRow) break;
+    if (row < fold.endRow) return fold.startRow - hidden;
+    hidden += fold.endRow - fold.startRow - 1;
+  }
+  return row - hidden;
+};
+
+// 显示位置对应的对齐行，占位行返回折叠区域的第一行
+export const displayIndexToRow = (folds: FoldRange[], index: number): number => {
+  let hidden = 0;
+  for (const fold of folds) {
+    const foldIndex = fold.startRow - hidden;
+    if (index < foldIndex) break;
+    if (index === foldIndex) return fold.startRow;
+    hidden += fold.endRow - fold.startRow - 1;
+  }
+  return index + hidden;
+};
+
+/**
+ * 使显示范围 [start, end) 在视口中垂直居中的滚动位置
+ * 范围高于视口时改为顶部对齐，viewportHeight 未知（为 0）时同样顶部对齐
+ */
+export const getCenteredScrollTop = (start: number, end: number, viewportHeight: number): number => {
+  const top = start * ROW_HEIGHT;
+  const height = Math.max(1, end - start) * ROW_HEIGHT;
+  if (viewportHeight <= height) return top;
+  return Math.max(0, Math.round(top - (viewportHeight - height) / 2));
+};
+
+// 对齐行范围 [startRow, endRow) 在折叠后的显示范围
+export const rowRangeToDisplayRange = (folds: FoldRange[], startRow: number, endRow: number): [number, number] => {
+  const start = rowToDisplayIndex(folds, startRow);
+  const end = rowToDisplayIndex(folds, Math.max(startRow, endRow - 1)) + 1;
+  return [start, end];
+};
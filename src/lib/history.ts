@@ -0,0 +1,192 @@
+import type { ComparisonOptions } from './compareOptions';
+import type { DiffSide } from './diffModel';
+import type { DiffStats } from './diffStats';
+
+// 历史记录类型定义
+export interface HistoryRecord {
+  id: string; // 语言与两侧代码的内容哈希，旧版本记录为保存时间戳
+  timestamp: number;
+  original: string;
+  modified: string;
+  lang: string;
+  options?: ComparisonOptions; // 旧版本记录没有该字段
+  stats?: DiffStats; // 保存时的差异统计，旧版本记录没有该字段
+  title?: string;
+  tags?: string[];
+  pinned?: boolean; // 置顶的记录不会因保留策略被删除
+  snapshot?: boolean; // 手动保存的快照，自动保存不会覆盖
+}
+
+// 历史记录保留策略，null 表示不限制
+export interface HistoryRetention {
+  maxAgeDays: number | null;
+  maxRecords: number | null;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxAgeDays: 90,
+  maxRecords: 500
+};
+
+// 参与对比的一个版本：历史记录的一侧代码，record 为 null 时表示当前编辑器中的代码
+export interface HistoryVersion {
+  record: HistoryRecord | null;
+  side: DiffSide;
+}
+
+// 记录两侧代码的名称
+export const HISTORY_SIDE_LABELS: Record<DiffSide, string> = {
+  original: '原始',
+  modified: '修改后'
+};
+
+// 历史记录筛选条件
+export interface HistoryFilter {
+  query: string; // 空格分隔的关键词，以 # 开头的关键词匹配标签
+  language: string | null;
+  since: number | null; // 只保留该时间之后的记录
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 距上次自动保存超过该时长后视为新的编辑会话
+export const HISTORY_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/**
+ * 计算记录的内容哈希作为 id（cyrb53），相同语言与内容的记录 id 相同
+ */
+export const createHistoryId = (original: string, modified: string, lang: string): string => {
+  const text = `${lang}\0${original}\0${modified}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// 自动保存可以覆盖的记录：未置顶且不是手动快照
+export const isAutoSavedRecord = (record: HistoryRecord): boolean => !record.pinned && !record.snapshot;
+
+/**
+ * 按保留策略拆分历史记录
+ * 置顶记录始终保留且不计入数量上限，其余记录按时间从新到旧保留
+ */
+export const applyHistoryRetention = (
+  records: HistoryRecord[],
+  retention: HistoryRetention,
+  now: number = Date.now()
+): { kept: HistoryRecord[]; expired: HistoryRecord[] } => {
+  const kept: HistoryRecord[] = [];
+  const expired: HistoryRecord[] = [];
+  const minTimestamp = retention.maxAgeDays === null ? -Infinity : now - retention.maxAgeDays * DAY_MS;
+  let unpinned = 0;
+
+  sortHistory(records).forEach(record => {
+    if (record.pinned) {
+      kept.push(record);
+      return;
+    }
+    const withinLimit = retention.maxRecords === null || unpinned < retention.maxRecords;
+    if (record.timestamp >= minTimestamp && withinLimit) {
+      kept.push(record);
+      unpinned++;
+    } else {
+      expired.push(record);
+    }
+  });
+
+  return { kept, expired };
+};
+
+// 置顶记录在前，其余按时间从新到旧
+export const sortHistory = (records: HistoryRecord[]): HistoryRecord[] => {
+  return [...records].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+};
+
+// 解析逗号或空格分隔的标签，去掉开头的 # 并去重
+export const parseTags = (text: string): string[] => {
+  const tags = text
+    .split(/[,，\s]+/)
+    .map(tag => tag.replace(/^#+/, '').trim())
+    .filter(Boolean);
+  return [...new Set(tags)];
+};
+
+/**
+ * 按关键词、语言与时间筛选历史记录
+ * 关键词不区分大小写，在标题、标签与两侧代码全文中查找，多个关键词需同时匹配
+ */
+export const filterHistory = (records: HistoryRecord[], filter: HistoryFilter): HistoryRecord[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return records.filter(record => {
+    if (filter.language && record.lang !== filter.language) return false;
+    if (filter.since !== null && record.timestamp < filter.since) return false;
+    if (terms.length === 0) return true;
+
+    const tags = (record.tags ?? []).map(tag => tag.toLowerCase());
+    const text = [record.title ?? '', record.original, record.modified].join('\n').toLowerCase();
+    return terms.every(term =>
+      term.startsWith('#') && term.length > 1
+        ? tags.includes(term.slice(1))
+        : text.includes(term) || tags.some(tag => tag.includes(term))
+    );
+  });
+};
+
+// 记录的显示名称：有标题时使用标题，否则使用保存时间
+export const getHistoryRecordName = (record: HistoryRecord): string => {
+  return record.title || new Date(record.timestamp).toLocaleString('zh-CN', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * 查找与指定记录属于同一段代码演变过程的记录，按时间从早到晚排列
+ * 两条记录有任意一侧代码相同（如上一轮的修改后代码是下一轮的原始代码）或标题相同时视为相关，关系可以传递
+ */
+export const findRecordRevisions = (records: HistoryRecord[], record: HistoryRecord): HistoryRecord[] => {
+  // 按代码内容与标题建立索引，避免两两比较大段文本
+  const index = new Map<string, HistoryRecord[]>();
+  const keysOf = (item: HistoryRecord) => [
+    `code:${item.original}`,
+    `code:${item.modified}`,
+    ...(item.title ? [`title:${item.title}`] : [])
+  ];
+  records.forEach(item => {
+    keysOf(item).forEach(key => {
+      const list = index.get(key);
+      if (list) {
+        list.push(item);
+      } else {
+        index.set(key, [item]);
+      }
+    });
+  });
+
+  const related = new Set<HistoryRecord>([record]);
+  const queue = [record];
+  const visitedKeys = new Set<string>();
+  while (queue.length > 0) {
+    keysOf(queue.shift()!).forEach(key => {
+      // 空代码不作为关联依据
+      if (visitedKeys.has(key) || key === 'code:') return;
+      visitedKeys.add(key);
+      index.get(key)?.forEach(item => {
+        if (related.has(item)) return;
+        related.add(item);
+        queue.push(item);
+      });
+    });
+  }
+
+  return [...related].sort((a, b) => a.timestamp - b.timestamp);
+};
@@ -0,0 +1,261 @@
+import { DEFAULT_COMPARISON_OPTIONS, type ComparisonOptions, type WhitespaceMode } from './compareOptions';
+import type { DiffStats } from './diffStats';
+import { createHistoryId, type HistoryRecord } from './history';
+import { isSupportedLanguage } from './languages';
+
+// 应用版本，写入导出文件便于排查兼容问题
+export const APP_VERSION = '1.0.0';
+
+// 导出文件的格式标识与当前结构版本，结构变化时递增版本并在 MIGRATIONS 中补充迁移
+export const HISTORY_EXPORT_FORMAT = 'codecheckup-history';
+export const HISTORY_SCHEMA_VERSION = 2;
+
+// 导出文件的扩展名
+export const HISTORY_FILE_EXTENSION = '.codecheckup';
+
+// 导出文件：版本 1 为记录数组本身，版本 2 起为带版本信息的外层结构
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  schemaVersion: number;
+  appVersion: string;
+  exportedAt: string; // ISO 8601
+  records: HistoryRecord[];
+}
+
+// 单条记录的校验错误，index 为记录在文件中的位置（从0开始）
+export interface HistoryRecordError {
+  index: number;
+  id?: string;
+  message: string;
+}
+
+export interface HistoryImport {
+  schemaVersion: number;
+  appVersion?: string;
+  records: HistoryRecord[];
+  errors: HistoryRecordError[];
+}
+
+// 导入时 id 与已有记录重复的处理方式
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+// 导入结果
+export interface HistoryImportSummary {
+  added: number;
+  overwritten: number;
+  skipped: number;
+}
+
+// 文本字段的长度上限，防止异常文件占满存储
+const MAX_ID_LENGTH = 128;
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 50;
+
+const WHITESPACE_MODES: WhitespaceMode[] = ['none', 'all', 'leadingTrailing', 'amount'];
+
+const STATS_FIELDS: (keyof Omit<DiffStats, 'histogram'>)[] = [
+  'insertedLines',
+  'deletedLines',
+  'modifiedLines',
+  'movedLines',
+  'hunks',
+  'charactersAdded',
+  'charactersRemoved',
+  'similarity'
+];
+
+// 记录校验失败时抛出，由调用方转换为单条记录的错误
+class RecordValidationError extends Error {}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// 校验对比选项，旧版本导出时还没有的字段使用默认值；分享链接解码时同样使用
+export const parseOptions = (value: unknown): ComparisonOptions => {
+  if (!isObject(value)) throw new RecordValidationError('对比选项格式不正确');
+  const options = { ...DEFAULT_COMPARISON_OPTIONS };
+  if (value.whitespace !== undefined) {
+    if (!WHITESPACE_MODES.includes(value.whitespace as WhitespaceMode)) {
+      throw new RecordValidationError(`不支持的空白处理方式：${String(value.whitespace)}`);
+    }
+    options.whitespace = value.whitespace as WhitespaceMode;
+  }
+  (['ignoreCase', 'normalizeLineEndings', 'ignoreTrailingNewline'] as const).forEach(key => {
+    if (value[key] === undefined) return;
+    if (typeof value[key] !== 'boolean') throw new RecordValidationError('对比选项格式不正确');
+    options[key] = value[key];
+  });
+  return options;
+};
+
+// 统计数据可以重新计算，格式不正确时丢弃而不是拒绝整条记录
+const parseStats = (value: unknown): DiffStats | undefined => {
+  if (!isObject(value)) return undefined;
+  if (!STATS_FIELDS.every(field => isCount(value[field]))) return undefined;
+  if (!Array.isArray(value.histogram) || !value.histogram.every(isCount)) return undefined;
+  const stats = Object.fromEntries(STATS_FIELDS.map(field => [field, value[field]])) as Omit<DiffStats, 'histogram'>;
+  return { ...stats, histogram: [...value.histogram] };
+};
+
+const parseTagList = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.length > MAX_TAGS) throw new RecordValidationError('标签格式不正确');
+  return value.map(tag => {
+    if (typeof tag !== 'string' || !tag.trim() || tag.length > MAX_TAG_LENGTH) {
+      throw new RecordValidationError('标签格式不正确');
+    }
+    return tag.trim();
+  });
+};
+
+/**
+ * 校验单条记录并只保留已知字段
+ */
+const parseRecord = (value: unknown): HistoryRecord => {
+  if (!isObject(value)) throw new RecordValidationError('记录不是对象');
+
+  const { id, timestamp, original, modified, lang } = value;
+  if (typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH) throw new RecordValidationError('缺少有效的 id');
+  if (!isCount(timestamp)) throw new RecordValidationError('时间戳格式不正确');
+  if (typeof original !== 'string' || typeof modified !== 'string') throw new RecordValidationError('代码内容必须是文本');
+  if (typeof lang !== 'string' || !isSupportedLanguage(lang)) throw new RecordValidationError(`不支持的语言：${String(lang)}`);
+
+  const record: HistoryRecord = { id, timestamp, original, modified, lang };
+  if (value.options !== undefined) record.options = parseOptions(value.options);
+  const stats = parseStats(value.stats);
+  if (stats) record.stats = stats;
+  if (value.title !== undefined) {
+    if (typeof value.title !== 'string' || value.title.length > MAX_TITLE_LENGTH) throw new RecordValidationError('标题格式不正确');
+    if (value.title.trim()) record.title = value.title.trim();
+  }
+  if (value.tags !== undefined) record.tags = parseTagList(value.tags);
+  if (value.pinned !== undefined) {
+    if (typeof value.pinned !== 'boolean') throw new RecordValidationError('置顶标记格式不正确');
+    if (value.pinned) record.pinned = true;
+  }
+  if (value.snapshot !== undefined) {
+    if (typeof value.snapshot !== 'boolean') throw new RecordValidationError('快照标记格式不正确');
+    if (value.snapshot) record.snapshot = true;
+  }
+  return record;
+};
+
+// 各版本升级到下一版本的迁移，键为升级前的版本
+const MIGRATIONS: Record<number, (data: unknown) => Record<string, unknown>> = {
+  // 版本 1：记录数组，没有外层结构
+  1: (data) => ({
+    format: HISTORY_EXPORT_FORMAT,
+    schemaVersion: 2,
+    records: data
+  })
+};
+
+/**
+ * 解析导出文件，旧版本文件先迁移到当前版本
+ * 文件整体无法识别时抛出错误；单条记录无效时跳过并记录在 errors 中
+ */
+export const parseHistoryExport = (text: string): HistoryImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+
+  let schemaVersion: number;
+  if (Array.isArray(data)) {
+    schemaVersion = 1;
+  } else if (isObject(data) && data.format === HISTORY_EXPORT_FORMAT && Number.isInteger(data.schemaVersion)) {
+    schemaVersion = data.schemaVersion as number;
+  } else {
+    throw new Error('不是码上找茬的历史记录文件');
+  }
+
+  if (schemaVersion > HISTORY_SCHEMA_VERSION) {
+    throw new Error(`文件由更新版本的应用导出（格式版本 ${schemaVersion}），请升级后再导入`);
+  }
+  if (schemaVersion < 1) throw new Error(`不支持的格式版本：${schemaVersion}`);
+
+  const sourceVersion = schemaVersion;
+  for (let version = schemaVersion; version < HISTORY_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+
+  const envelope = data as Record<string, unknown>;
+  if (!Array.isArray(envelope.records)) throw new Error('文件中没有记录列表');
+
+  const records: HistoryRecord[] = [];
+  const errors: HistoryRecordError[] = [];
+  envelope.records.forEach((value, index) => {
+    try {
+      records.push(parseRecord(value));
+    } catch (error) {
+      if (!(error instanceof RecordValidationError)) throw error;
+      const id = isObject(value) && typeof value.id === 'string' ? value.id.slice(0, MAX_ID_LENGTH) : undefined;
+      errors.push({ index, id, message: error.message });
+    }
+  });
+
+  return {
+    schemaVersion: sourceVersion,
+    appVersion: typeof envelope.appVersion === 'string' ? envelope.appVersion : undefined,
+    records,
+    errors
+  };
+};
+
+// 生成当前版本的导出文件内容
+export const createHistoryExport = (records: HistoryRecord[]): string => {
+  const data: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    appVersion: APP_VERSION,
+    exportedAt: new Date().toISOString(),
+    records
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * 按重复 id 的处理方式合并导入的记录
+ * 返回合并后的全部记录以及需要写入存储的新增或覆盖的记录；keepBoth 时为重复的记录生成新的 id
+ */
+export const mergeImportedRecords = (
+  existing: HistoryRecord[],
+  imported: HistoryRecord[],
+  strategy: DuplicateStrategy
+): HistoryImportSummary & { records: HistoryRecord[]; changed: HistoryRecord[] } => {
+  const byId = new Map(existing.map(record => [record.id, record]));
+  const changed: HistoryRecord[] = [];
+  let overwritten = 0;
+  let skipped = 0;
+
+  imported.forEach(record => {
+    if (!byId.has(record.id) || strategy === 'overwrite') {
+      if (byId.has(record.id)) overwritten++;
+      byId.set(record.id, record);
+      changed.push(record);
+    } else if (strategy === 'skip') {
+      skipped++;
+    } else {
+      // 内容哈希加序号作为新 id，保证不与已有记录冲突
+      const baseId = createHistoryId(record.original, record.modified, record.lang);
+      let suffix = 1;
+      while (byId.has(`${baseId}-${suffix}`)) suffix++;
+      const copy = { ...record, id: `${baseId}-${suffix}` };
+      byId.set(copy.id, copy);
+      changed.push(copy);
+    }
+  });
+
+  return {
+    records: [...byId.values()],
+    changed,
+    added: changed.length - overwritten,
+    overwritten,
+    skipped
+  };
+};
@@ -0,0 +1,204 @@
+import Prism from 'prismjs';
+import { getRowSegments, type ComparisonOptions, type InlineSegment } from './compareOptions';
+import type { DiffModel } from './diffModel';
+import { computeDiffStats, formatSimilarity } from './diffStats';
+import { buildFoldedItems, computeFolds } from './folding';
+import { getLanguageLabel, getPrismGrammarName } from './languages';
+import { loadPrismGrammar } from './prismGrammars';
+
+// 报告的排版：并排或统一视图
+export type ReportLayout = 'split' | 'unified';
+
+export interface HtmlReportOptions {
+  layout: ReportLayout;
+  language: string;
+  comparisonOptions: ComparisonOptions;
+  originalFileName: string;
+  modifiedFileName: string;
+  contextLines: number | null; // 折叠未修改区域时保留的上下文行数，null 表示输出全部行
+}
+
+// 报告内联的样式，浅色为主，系统为深色模式时切换配色
+const REPORT_STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; padding: 24px; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", "Noto Sans", Helvetica, Arial, sans-serif; color: #212529; background: #fff; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.meta { color: #6c757d; font-size: 12px; margin-bottom: 16px; }
+.stats { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 16px; }
+.stat { padding: 4px 10px; border-radius: 4px; background: #f1f3f5; font-size: 12px; }
+.stat b { font-size: 14px; margin-right: 4px; }
+.stat.ins b { color: #2f9e44; } .stat.del b { color: #e03131; } .stat.mod b { color: #f08c00; } .stat.move b { color: #9c36b5; }
+.index { margin: 0 0 16px; padding: 0; list-style: none; font-size: 12px; columns: 2; }
+.index a { color: #1c7ed6; text-decoration: none; }
+.index a:hover { text-decoration: underline; }
+.diff { width: 100%; border-collapse: collapse; table-layout: fixed; font: 12px/20px "Fira Code", Monaco, Menlo, Consolas, monospace; border: 1px solid #dee2e6; }
+.diff td { padding: 0 8px; vertical-align: top; white-space: pre-wrap; word-break: break-all; }
+.diff .num { width: 48px; text-align: right; color: #868e96; user-select: none; background: #f8f9fa; }
+.diff .sign { width: 20px; color: #868e96; user-select: none; }
+.diff .split { border-left: 1px solid #dee2e6; }
+.del { background: #fff5f5; } .ins { background: #ebfbee; } .move { background: #f8f0fc; }
+.filler { background: repeating-linear-gradient(-45deg, #f1f3f5 0, #f1f3f5 2px, transparent 2px, transparent 8px); }
+.chg-del { background: #ffc9c9; } .chg-ins { background: #b2f2bb; }
+.fold td { background: #e7f5ff; color: #1971c2; text-align: center; font-style: italic; }
+.hunk-start td { border-top: 1px solid #a5d8ff; }
+.token.comment, .token.prolog, .token.doctype, .token.cdata { color: #008000; }
+.token.punctuation, .token.operator { color: #393a34; }
+.token.property, .token.tag, .token.boolean, .token.number, .token.constant, .token.symbol { color: #098658; }
+.token.selector, .token.attr-name, .token.string, .token.char, .token.builtin { color: #a31515; }
+.token.atrule, .token.attr-value, .token.keyword { color: #0000ff; }
+.token.function, .token.class-name { color: #795e26; }
+.token.regex, .token.important, .token.variable { color: #cd3131; }
+@media (prefers-color-scheme: dark) {
+  body { color: #ccc; background: #1e1e1e; }
+  .meta, .diff .num, .diff .sign { color: #858585; }
+  .stat, .diff .num { background: #252526; }
+  .diff, .diff .split { border-color: #3e3e42; }
+  .del { background: rgba(244, 67, 54, 0.12); } .ins { background: rgba(76, 175, 80, 0.12); } .move { background: rgba(156, 39, 176, 0.15); }
+  .filler { background: repeating-linear-gradient(-45deg, rgba(128, 128, 128, 0.12) 0, rgba(128, 128, 128, 0.12) 2px, transparent 2px, transparent 8px); }
+  .chg-del { background: rgba(244, 67, 54, 0.35); } .chg-ins { background: rgba(76, 175, 80, 0.35); }
+  .fold td { background: #1c2b3a; color: #74c0fc; }
+  .index a { color: #74c0fc; }
+  .token.comment, .token.prolog, .token.doctype, .token.cdata { color: #6a9955; }
+  .token.punctuation, .token.operator { color: #d4d4d4; }
+  .token.property, .token.tag, .token.boolean, .token.number, .token.constant, .token.symbol { color: #b5cea8; }
+  .token.selector, .token.attr-name, .token.string, .token.char, .token.builtin { color: #ce9178; }
+  .token.atrule, .token.attr-value, .token.keyword { color: #569cd6; }
+  .token.function, .token.class-name { color: #dcdcaa; }
+  .token.regex, .token.important, .token.variable { color: #d16969; }
+}
+`;
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * 生成独立的 HTML 差异报告
+ * 样式全部内联、不引用任何外部资源，可以直接作为附件发送
+ */
+export const createHtmlReport = async (model: DiffModel, options: HtmlReportOptions): Promise<string> => {
+  const grammarName = getPrismGrammarName(options.language);
+  const grammar = (await loadPrismGrammar(grammarName)) ?? Prism.languages.plain;
+
+  const highlight = (text: string) => Prism.highlight(text, grammar, grammarName);
+
+  // 渲染一侧的代码，changedClass 为行内变更片段使用的类名
+  const renderCode = (text: string, segments: InlineSegment[] | undefined, changedClass: string) => {
+    if (!segments) return highlight(text);
+    return segments
+      .map(segment => (segment.changed ? `<span class="${changedClass}">${highlight(segment.text)}</span>` : highlight(segment.text)))
+      .join('');
+  };
+
+  const lineNumber = (index: number | undefined) => (index === undefined ? '' : String(index + 1));
+
+  // 每个变更块的第一行作为索引的锚点
+  const hunkStarts = new Map(model.hunks.map(hunk => [hunk.startRow, hunk.index]));
+  const rowAttributes = (row: number, className: string) => {
+    const hunkIndex = hunkStarts.get(row);
+    const classes = [className, hunkIndex !== undefined ? 'hunk-start' : ''].filter(Boolean).join(' ');
+    return `${hunkIndex !== undefined ? ` id="hunk-${hunkIndex + 1}"` : ''}${classes ? ` class="${classes}"` : ''}`;
+  };
+
+  const folds = options.contextLines === null ? [] : computeFolds(model.rows, options.contextLines, {});
+  const columnCount = 4; // 两种排版都是四列
+  const bodyRows: string[] = [];
+
+  buildFoldedItems(model.rows.length, folds).forEach(({ row, fold }) => {
+    if (fold) {
+      bodyRows.push(`<tr class="fold"><td colspan="${columnCount}">⋯ ${fold.endRow - fold.startRow} 行未修改</td></tr>`);
+      return;
+    }
+
+    const item = model.rows[row];
+    const segments = getRowSegments(item, options.comparisonOptions);
+    const isMove = item.type === 'move';
+
+    if (options.layout === 'split') {
+      const originalClass = item.originalIndex === undefined ? 'filler' : item.type === 'equal' ? '' : isMove ? 'move' : 'del';
+      const modifiedClass = item.modifiedIndex === undefined ? 'filler' : item.type === 'equal' ? '' : isMove ? 'move' : 'ins';
+      bodyRows.push(
+        `<tr${rowAttributes(row, '')}>` +
+        `<td class="num ${originalClass}">${lineNumber(item.originalIndex)}</td>` +
+        `<td class="${originalClass}">${item.originalIndex === undefined ? '' : renderCode(item.originalLine ?? '', segments?.original, 'chg-del')}</td>` +
+        `<td class="num split ${modifiedClass}">${lineNumber(item.modifiedIndex)}</td>` +
+        `<td class="${modifiedClass}">${item.modifiedIndex === undefined ? '' : renderCode(item.modifiedLine ?? '', segments?.modified, 'chg-ins')}</td>` +
+        '</tr>'
+      );
+      return;
+    }
+
+    // 统一视图：修改行拆分为删除行与插入行
+    const unifiedLine = (sign: string, className: string, originalIndex: number | undefined, modifiedIndex: number | undefined, code: string, first: boolean) =>
+      `<tr${first ? rowAttributes(row, className) : className ? ` class="${className}"` : ''}>` +
+      `<td class="num">${lineNumber(originalIndex)}</td>` +
+      `<td class="num">${lineNumber(modifiedIndex)}</td>` +
+      `<td class="sign">${sign}</td>` +
+      `<td>${code}</td>` +
+      '</tr>';
+
+    if (item.type === 'equal') {
+      bodyRows.push(unifiedLine(' ', '', item.originalIndex, item.modifiedIndex, highlight(item.modifiedLine ?? item.originalLine ?? ''), true));
+      return;
+    }
+    let first = true;
+    if (item.originalIndex !== undefined) {
+      bodyRows.push(unifiedLine('-', isMove ? 'move' : 'del', item.originalIndex, undefined, renderCode(item.originalLine ?? '', segments?.original, 'chg-del'), first));
+      first = false;
+    }
+    if (item.modifiedIndex !== undefined) {
+      bodyRows.push(unifiedLine('+', isMove ? 'move' : 'ins', undefined, item.modifiedIndex, renderCode(item.modifiedLine ?? '', segments?.modified, 'chg-ins'), first));
+    }
+  });
+
+  const originalName = options.originalFileName || '原始代码';
+  const modifiedName = options.modifiedFileName || '修改代码';
+  const title = `${originalName} → ${modifiedName}`;
+  const stats = computeDiffStats(model, options.comparisonOptions);
+
+  const statItems = [
+    `<span class="stat ins"><b>${stats.insertedLines}</b>新增行</span>`,
+    `<span class="stat del"><b>${stats.deletedLines}</b>删除行</span>`,
+    `<span class="stat mod"><b>${stats.modifiedLines}</b>修改行</span>`,
+    stats.movedLines > 0 ? `<span class="stat move"><b>${stats.movedLines}</b>移动行</span>` : '',
+    `<span class="stat"><b>${stats.hunks}</b>处变更</span>`,
+    `<span class="stat"><b>+${stats.charactersAdded} / -${stats.charactersRemoved}</b>字符</span>`,
+    `<span class="stat"><b>${formatSimilarity(stats.similarity)}</b>相似度</span>`
+  ].join('');
+
+  const index = model.hunks
+    .map(hunk => {
+      const range = (start: number, end: number) => {
+        if (end === start) return `${start} 之后`;
+        return end - start === 1 ? `${end}` : `${start + 1}–${end}`;
+      };
+      return `<li><a href="#hunk-${hunk.index + 1}">变更 ${hunk.index + 1}</a>：原始 ${range(hunk.originalStart, hunk.originalEnd)} → 修改 ${range(hunk.modifiedStart, hunk.modifiedEnd)}</li>`;
+    })
+    .join('');
+
+  const columns = options.layout === 'split'
+    ? `<colgroup><col style="width:48px"><col><col style="width:48px"><col></colgroup>`
+    : `<colgroup><col style="width:48px"><col style="width:48px"><col style="width:20px"><col></colgroup>`;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(getLanguageLabel(options.language))} · 生成于 ${escapeHtml(new Date().toLocaleString('zh-CN'))} · 码上找茬 CodeCheckup</div>
+<div class="stats">${statItems}</div>
+${index ? `<ol class="index">${index}</ol>` : '<p class="meta">两侧代码没有差异</p>'}
+<table class="diff">${columns}<tbody>
+${bodyRows.join('\n')}
+</tbody></table>
+</body>
+</html>
+`;
+};
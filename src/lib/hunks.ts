@@ -0,0 +1,106 @@
+import type { LineDiffResult } from './lineDiff';
+
+// 连续的差异行组成的变更块，行号均从0开始，结束位置不包含在内
+export interface DiffHunk {
+  index: number;
+  startRow: number; // 在对比结果中的起始位置
+  endRow: number;
+  originalStart: number; // 在原始代码中的行范围
+  originalEnd: number;
+  modifiedStart: number; // 在修改代码中的行范围
+  modifiedEnd: number;
+}
+
+// 尚未定位到任何对齐行时的当前位置，此时下一处变更从第一行开始查找
+export const NO_CURRENT_ROW = -1;
+
+// 合并方向：toModified 为采用左侧内容覆盖右侧，toOriginal 反之
+export type MergeDirection = 'toModified' | 'toOriginal';
+
+/**
+ * 将对比结果中相邻的差异行分组为变更块
+ * 纯插入/纯删除的块在另一侧的范围为空，起止位置即插入点
+ */
+export const groupHunks = (lineDiffs: LineDiffResult[]): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let originalCursor = 0;
+  let modifiedCursor = 0;
+  let current: DiffHunk | null = null;
+
+  lineDiffs.forEach((item, row) => {
+    if (item.type === 'equal') {
+      current = null;
+    } else {
+      if (!current) {
+        current = {
+          index: hunks.length,
+          startRow: row,
+          endRow: row,
+          originalStart: originalCursor,
+          originalEnd: originalCursor,
+          modifiedStart: modifiedCursor,
+          modifiedEnd: modifiedCursor
+        };
+        hunks.push(current);
+      }
+      current.endRow = row + 1;
+    }
+
+    if (item.originalIndex !== undefined) originalCursor = item.originalIndex + 1;
+    if (item.modifiedIndex !== undefined) modifiedCursor = item.modifiedIndex + 1;
+    if (current) {
+      current.originalEnd = originalCursor;
+      current.modifiedEnd = modifiedCursor;
+    }
+  });
+
+  return hunks;
+};
+
+// 查找包含指定对齐行（从0开始）的变更块
+export const findHunkAtRow = (hunks: DiffHunk[], row: number): DiffHunk | undefined => {
+  return hunks.find(hunk => row >= hunk.startRow && row < hunk.endRow);
+};
+
+// 位于指定对齐行之后的第一个变更块，row 为 NO_CURRENT_ROW 时即第一个变更块
+export const findNextHunk = (hunks: DiffHunk[], row: number): DiffHunk | undefined => {
+  return hunks.find(hunk => hunk.startRow > row);
+};
+
+// 起始位置在指定对齐行之前的最后一个变更块，位于变更块中间时即为该块本身
+export const findPreviousHunk = (hunks: DiffHunk[], row: number): DiffHunk | undefined => {
+  for (let index = hunks.length - 1; index >= 0; index--) {
+    if (hunks[index].startRow < row) return hunks[index];
+  }
+  return undefined;
+};
+
+/**
+ * 在两侧代码之间应用单个变更块
+ * 返回合并后的两侧代码，只有目标一侧会发生变化
+ */
+export const mergeHunk = (
+  originalCode: string,
+  modifiedCode: string,
+  hunk: DiffHunk,
+  direction: MergeDirection
+): { originalCode: string; modifiedCode: string } => {
+  const originalLines = originalCode.split('\n');
+  const modifiedLines = modifiedCode.split('\n');
+
+  if (direction === 'toModified') {
+    modifiedLines.splice(
+      hunk.modifiedStart,
+      hunk.modifiedEnd - hunk.modifiedStart,
+      ...originalLines.slice(hunk.originalStart, hunk.originalEnd)
+    );
+    return { originalCode, modifiedCode: modifiedLines.join('\n') };
+  }
+
+  originalLines.splice(
+    hunk.originalStart,
+    hunk.originalEnd - hunk.originalStart,
+    ...modifiedLines.slice(hunk.modifiedStart, hunk.modifiedEnd)
+  );
+  return { originalCode: originalLines.join('\n'), modifiedCode };
+};
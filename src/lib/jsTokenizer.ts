@@ -0,0 +1,182 @@
+// JavaScript/TypeScript 词法单元
+export type JsTokenType = 'word' | 'string' | 'template' | 'number' | 'regex' | 'punct';
+
+export interface JsToken {
+  type: JsTokenType;
+  value: string; // 源码中的原文
+  key: string; // 用于比较的规范化内容，引号风格与数字写法不影响比较
+  start: number; // 在源码中的字符偏移，结束位置不包含在内
+  end: number;
+}
+
+// 按长度从长到短排列的多字符运算符
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>'
+];
+
+// 这些关键字之后的 / 是正则表达式而不是除号
+const REGEX_PREFIX_WORDS = new Set([
+  'return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete',
+  'void', 'throw', 'instanceof', 'yield', 'await'
+]);
+
+const NUMBER_PATTERN = /^(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*\.?[\d_]*(?:[eE][+-]?\d+)?|\.\d[\d_]*(?:[eE][+-]?\d+)?)n?/;
+const WORD_START = /[\p{L}_$]/u;
+const WORD_PART = /[\p{L}\p{N}_$]/u;
+
+// 判断 / 出现的位置是否为正则表达式的开始
+const canStartRegex = (previous: JsToken | undefined): boolean => {
+  if (!previous) return true;
+  if (previous.type === 'punct') return ![')', ']', '}'].includes(previous.value);
+  return previous.type === 'word' && REGEX_PREFIX_WORDS.has(previous.value);
+};
+
+// 去掉字符串两侧引号并还原转义的引号，使 'a' 与 "a" 相同
+const normalizeString = (raw: string): string => {
+  return raw.slice(1, -1).replace(/\\(['"])/g, '$1');
+};
+
+// 数字按数值比较，使 1.0 与 1、0x10 与 16 相同
+const normalizeNumber = (raw: string): string => {
+  if (raw.endsWith('n')) return raw.replace(/_/g, '');
+  const value = Number(raw.replace(/_/g, ''));
+  return Number.isNaN(value) ? raw : String(value);
+};
+
+/**
+ * 将 JavaScript/TypeScript 源码切分为词法单元
+ * 空白与注释被丢弃；只做词法层面的近似处理，不校验语法
+ */
+export const tokenizeJs = (source: string): JsToken[] => {
+  const tokens: JsToken[] = [];
+  let index = 0;
+
+  const push = (type: JsTokenType, start: number, end: number, key: string) => {
+    tokens.push({ type, value: source.slice(start, end), key, start, end });
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const next = source[index + 1];
+
+    // 空白
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // 注释
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', index);
+      index = end < 0 ? source.length : end;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2);
+      index = end < 0 ? source.length : end + 2;
+      continue;
+    }
+
+    const start = index;
+
+    // 字符串
+    if (char === '"' || char === "'") {
+      index++;
+      while (index < source.length && source[index] !== char && source[index] !== '\n') {
+        index += source[index] === '\\' ? 2 : 1;
+      }
+      index = Math.min(index + 1, source.length);
+      push('string', start, index, `s:${normalizeString(source.slice(start, index))}`);
+      continue;
+    }
+
+    // 模板字符串，${} 中可以嵌套花括号与模板
+    if (char === '`') {
+      index++;
+      const braces: number[] = [];
+      while (index < source.length) {
+        const current = source[index];
+        if (current === '\\') {
+          index += 2;
+        } else if (braces.length === 0 && current === '`') {
+          index++;
+          break;
+        } else if (current === '$' && source[index + 1] === '{') {
+          braces.push(0);
+          index += 2;
+        } else if (braces.length > 0 && current === '{') {
+          braces[braces.length - 1]++;
+          index++;
+        } else if (braces.length > 0 && current === '}') {
+          if (braces[braces.length - 1] === 0) {
+            braces.pop();
+          } else {
+            braces[braces.length - 1]--;
+          }
+          index++;
+        } else {
+          index++;
+        }
+      }
+      push('template', start, index, `t:${source.slice(start, index)}`);
+      continue;
+    }
+
+    // 数字
+    if (/\d/.test(char) || (char === '.' && /\d/.test(next ?? ''))) {
+      const match = NUMBER_PATTERN.exec(source.slice(index, index + 64));
+      index += match ? match[0].length : 1;
+      push('number', start, index, `n:${normalizeNumber(source.slice(start, index))}`);
+      continue;
+    }
+
+    // 标识符与关键字
+    if (WORD_START.test(char)) {
+      index++;
+      while (index < source.length && WORD_PART.test(source[index])) index++;
+      push('word', start, index, `w:${source.slice(start, index)}`);
+      continue;
+    }
+
+    // 正则表达式
+    if (char === '/' && canStartRegex(tokens[tokens.length - 1])) {
+      index++;
+      let inClass = false;
+      while (index < source.length && source[index] !== '\n') {
+        const current = source[index];
+        if (current === '\\') {
+          index += 2;
+          continue;
+        }
+        if (current === '[') inClass = true;
+        if (current === ']') inClass = false;
+        index++;
+        if (current === '/' && !inClass) break;
+      }
+      while (index < source.length && /[a-z]/i.test(source[index])) index++;
+      push('regex', start, index, `r:${source.slice(start, index)}`);
+      continue;
+    }
+
+    // 运算符与标点
+    const punctuator = PUNCTUATORS.find(candidate => source.startsWith(candidate, index)) ?? char;
+    index += punctuator.length;
+    push('punct', start, index, `p:${punctuator}`);
+  }
+
+  return tokens;
+};
+
+/**
+ * 去掉只影响格式的词法单元：分号，以及紧跟在闭合括号前的尾随逗号
+ */
+export const dropFormattingTokens = (tokens: JsToken[]): JsToken[] => {
+  return tokens.filter((token, index) => {
+    if (token.value === ';') return false;
+    if (token.value !== ',') return true;
+    const following = tokens[index + 1]?.value;
+    return following !== ')' && following !== ']' && following !== '}';
+  });
+};
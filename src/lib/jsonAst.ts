@@ -0,0 +1,198 @@
+// 带源码位置的 JSON 语法树，start/end 为字符偏移，结束位置不包含在内
+export type JsonNode =
+  | { type: 'object'; start: number; end: number; properties: JsonProperty[] }
+  | { type: 'array'; start: number; end: number; items: JsonNode[] }
+  | { type: 'string'; start: number; end: number; value: string }
+  | { type: 'number'; start: number; end: number; value: number }
+  | { type: 'boolean'; start: number; end: number; value: boolean }
+  | { type: 'null'; start: number; end: number; value: null };
+
+// 对象中的一个属性，start/end 覆盖从键到值的整段
+export interface JsonProperty {
+  key: string;
+  start: number;
+  end: number;
+  value: JsonNode;
+}
+
+// JSON 解析错误，offset 为出错位置
+export class JsonParseError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'JsonParseError';
+    this.offset = offset;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+};
+
+const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+
+/**
+ * 解析 JSON 文本并保留每个节点的位置
+ * 语法与 JSON.parse 一致，出错时抛出 JsonParseError
+ */
+export const parseJsonWithLocations = (text: string): JsonNode => {
+  let index = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonParseError(`${message}（位置 ${index}）`, index);
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length && /[ \t\n\r\uFEFF]/.test(text[index])) index++;
+  };
+
+  const expect = (char: string) => {
+    if (text[index] !== char) fail(`缺少 "${char}"`);
+    index++;
+  };
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (index < text.length && text[index] !== '"') {
+      const char = text[index];
+      if (char === '\\') {
+        const escape = text[index + 1];
+        if (escape === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (!/^[\da-fA-F]{4}$/.test(hex)) fail('无效的 Unicode 转义');
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+        } else if (escape in ESCAPES) {
+          result += ESCAPES[escape];
+          index += 2;
+        } else {
+          fail('无效的转义字符');
+        }
+      } else if (char < ' ') {
+        fail('字符串中不能包含控制字符');
+      } else {
+        result += char;
+        index++;
+      }
+    }
+    expect('"');
+    return result;
+  };
+
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const start = index;
+    const char = text[index];
+
+    if (char === '{') {
+      index++;
+      const properties: JsonProperty[] = [];
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return { type: 'object', start, end: index, properties };
+      }
+      for (;;) {
+        skipWhitespace();
+        const propertyStart = index;
+        const key = parseString();
+        skipWhitespace();
+        expect(':');
+        const value = parseValue();
+        properties.push({ key, start: propertyStart, end: value.end, value });
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        expect('}');
+        return { type: 'object', start, end: index, properties };
+      }
+    }
+
+    if (char === '[') {
+      index++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return { type: 'array', start, end: index, items };
+      }
+      for (;;) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        expect(']');
+        return { type: 'array', start, end: index, items };
+      }
+    }
+
+    if (char === '"') {
+      const value = parseString();
+      return { type: 'string', start, end: index, value };
+    }
+
+    if (text.startsWith('true', index) || text.startsWith('false', index)) {
+      const value = text.startsWith('true', index);
+      index += value ? 4 : 5;
+      return { type: 'boolean', start, end: index, value };
+    }
+
+    if (text.startsWith('null', index)) {
+      index += 4;
+      return { type: 'null', start, end: index, value: null };
+    }
+
+    const match = NUMBER_PATTERN.exec(text.slice(index, index + 64));
+    if (match) {
+      index += match[0].length;
+      return { type: 'number', start, end: index, value: Number(match[0]) };
+    }
+
+    return fail(index >= text.length ? '意外的文件结尾' : `意外的字符 "${char}"`);
+  };
+
+  const root = parseValue();
+  skipWhitespace();
+  if (index < text.length) fail('JSON 末尾存在多余内容');
+  return root;
+};
+
+// 将语法树还原为普通的 JavaScript 值
+export const toJsonValue = (node: JsonNode): unknown => {
+  switch (node.type) {
+    case 'object':
+      return Object.fromEntries(node.properties.map(property => [property.key, toJsonValue(property.value)]));
+    case 'array':
+      return node.items.map(toJsonValue);
+    default:
+      return node.value;
+  }
+};
+
+// 生成与键顺序、格式无关的规范化文本，用于判断两个节点是否相等
+export const canonicalJson = (node: JsonNode): string => {
+  switch (node.type) {
+    case 'object':
+      return `{${[...node.properties]
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        .map(property => `${JSON.stringify(property.key)}:${canonicalJson(property.value)}`)
+        .join(',')}}`;
+    case 'array':
+      return `[${node.items.map(canonicalJson).join(',')}]`;
+    default:
+      return JSON.stringify(node.value);
+  }
+};
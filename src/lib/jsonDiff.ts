@@ -0,0 +1,159 @@
+import { computeLineMatches } from './lineDiff';
+import { canonicalJson, parseJsonWithLocations, toJsonValue, type JsonNode } from './jsonAst';
+import { parseYamlWithLocations } from './yamlAst';
+
+// 一处结构化数据差异，op 与 JSON Patch 的操作一致
+export interface DataChange {
+  op: 'add' | 'remove' | 'replace';
+  path: string; // JSON Pointer，按顺序应用时有效
+  oldValue?: unknown;
+  newValue?: unknown;
+  originalRange?: { start: number; end: number }; // 在原始文本中的位置
+  modifiedRange?: { start: number; end: number };
+}
+
+// JSON Patch（RFC 6902）中的一个操作
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+// 支持结构化对比的数据格式及其解析器，解析结果统一为带位置的 JSON 语法树
+const DATA_PARSERS: Record<string, (text: string) => JsonNode> = {
+  json: parseJsonWithLocations,
+  yaml: parseYamlWithLocations
+};
+
+export const isStructuredDataLanguage = (language: string): boolean => language in DATA_PARSERS;
+
+// JSON Pointer 中的单个片段（RFC 6901 转义）
+export const escapePointerSegment = (segment: string | number): string => {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+};
+
+const rangeOf = (node: { start: number; end: number }) => ({ start: node.start, end: node.end });
+
+/**
+ * 递归比较两棵 JSON 语法树
+ * 对象按键比较（与顺序无关）；数组先按内容匹配相同的元素，其余元素按位置配对后继续比较。
+ * 数组下标按变更依次应用后的位置计算，因此结果可直接作为 JSON Patch 使用
+ */
+export const diffJsonTrees = (original: JsonNode, modified: JsonNode, path = ''): DataChange[] => {
+  if (canonicalJson(original) === canonicalJson(modified)) return [];
+
+  if (original.type === 'object' && modified.type === 'object') {
+    const changes: DataChange[] = [];
+    const modifiedByKey = new Map(modified.properties.map(property => [property.key, property]));
+    const originalKeys = new Set(original.properties.map(property => property.key));
+
+    original.properties.forEach(property => {
+      const childPath = `${path}/${escapePointerSegment(property.key)}`;
+      const counterpart = modifiedByKey.get(property.key);
+      if (counterpart) {
+        changes.push(...diffJsonTrees(property.value, counterpart.value, childPath));
+      } else {
+        changes.push({
+          op: 'remove',
+          path: childPath,
+          oldValue: toJsonValue(property.value),
+          originalRange: rangeOf(property)
+        });
+      }
+    });
+    modified.properties.forEach(property => {
+      if (originalKeys.has(property.key)) return;
+      changes.push({
+        op: 'add',
+        path: `${path}/${escapePointerSegment(property.key)}`,
+        newValue: toJsonValue(property.value),
+        modifiedRange: rangeOf(property)
+      });
+    });
+    return changes;
+  }
+
+  if (original.type === 'array' && modified.type === 'array') {
+    const changes: DataChange[] = [];
+    const matches = computeLineMatches(original.items.map(canonicalJson), modified.items.map(canonicalJson));
+    let i = 0;
+    let j = 0;
+    let position = 0; // 已应用之前的变更后，当前元素所在的下标
+
+    // 在相同元素之间，剩余元素按位置配对，多出的元素删除或插入
+    const flushGap = (originalEnd: number, modifiedEnd: number) => {
+      for (; i < originalEnd && j < modifiedEnd; i++, j++, position++) {
+        changes.push(...diffJsonTrees(original.items[i], modified.items[j], `${path}/${position}`));
+      }
+      for (; i < originalEnd; i++) {
+        changes.push({
+          op: 'remove',
+          path: `${path}/${position}`,
+          oldValue: toJsonValue(original.items[i]),
+          originalRange: rangeOf(original.items[i])
+        });
+      }
+      for (; j < modifiedEnd; j++, position++) {
+        changes.push({
+          op: 'add',
+          path: `${path}/${position}`,
+          newValue: toJsonValue(modified.items[j]),
+          modifiedRange: rangeOf(modified.items[j])
+        });
+      }
+    };
+
+    matches.forEach((match, index) => {
+      if (match < 0) return;
+      flushGap(index, match);
+      i = index + 1;
+      j = match + 1;
+      position++;
+    });
+    flushGap(original.items.length, modified.items.length);
+    return changes;
+  }
+
+  return [{
+    op: 'replace',
+    path,
+    oldValue: toJsonValue(original),
+    newValue: toJsonValue(modified),
+    originalRange: rangeOf(original),
+    modifiedRange: rangeOf(modified)
+  }];
+};
+
+/**
+ * 比较两份结构化数据文本
+ * 任一侧无法解析时抛出解析错误
+ */
+export const diffStructuredData = (language: string, originalText: string, modifiedText: string): DataChange[] => {
+  const parse = DATA_PARSERS[language];
+  if (!parse) throw new Error(`不支持结构化对比的格式: ${language}`);
+
+  // 错误信息注明出错的一侧
+  const parseSide = (text: string, sideLabel: string): JsonNode => {
+    try {
+      return parse(text);
+    } catch (error) {
+      throw new Error(`${sideLabel}无法解析：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  return diffJsonTrees(parseSide(originalText, '原始数据'), parseSide(modifiedText, '修改数据'));
+};
+
+// 转换为 JSON Patch（RFC 6902）文档
+export const toJsonPatch = (changes: DataChange[]): JsonPatchOperation[] => {
+  return changes.map(change => (
+    change.op === 'remove'
+      ? { op: 'remove', path: change.path }
+      : { op: change.op, path: change.path, value: change.newValue }
+  ));
+};
+
+// 值的单行预览，过长时截断
+export const formatDataValue = (value: unknown, maxLength = 60): string => {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
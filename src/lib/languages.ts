@@ -0,0 +1,210 @@
+// 支持的语言：扩展名的第一个为导出时使用的默认扩展名，grammar 为对应的 Prism 语法名
+export interface LanguageDefinition {
+  id: string;
+  label: string;
+  extensions: string[];
+  fileNames?: string[]; // 没有扩展名的特殊文件名，如 Dockerfile
+  grammar: string;
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  { id: 'javascript', label: 'JavaScript', extensions: ['.js', '.jsx', '.mjs', '.cjs'], grammar: 'javascript' },
+  { id: 'typescript', label: 'TypeScript', extensions: ['.ts', '.tsx', '.mts', '.cts'], grammar: 'typescript' },
+  { id: 'python', label: 'Python', extensions: ['.py', '.pyw'], grammar: 'python' },
+  { id: 'java', label: 'Java', extensions: ['.java'], grammar: 'java' },
+  { id: 'css', label: 'CSS', extensions: ['.css'], grammar: 'css' },
+  { id: 'json', label: 'JSON', extensions: ['.json'], grammar: 'json' },
+  { id: 'html', label: 'HTML', extensions: ['.html', '.htm'], grammar: 'markup' },
+  { id: 'markdown', label: 'Markdown', extensions: ['.md', '.markdown'], grammar: 'markdown' },
+  { id: 'sql', label: 'SQL', extensions: ['.sql'], grammar: 'sql' },
+  { id: 'xml', label: 'XML', extensions: ['.xml', '.svg', '.xsd', '.xsl'], grammar: 'markup' },
+  { id: 'go', label: 'Go', extensions: ['.go'], grammar: 'go' },
+  { id: 'rust', label: 'Rust', extensions: ['.rs'], grammar: 'rust' },
+  { id: 'c', label: 'C', extensions: ['.c', '.h'], grammar: 'c' },
+  { id: 'cpp', label: 'C++', extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx'], grammar: 'cpp' },
+  { id: 'csharp', label: 'C#', extensions: ['.cs'], grammar: 'csharp' },
+  { id: 'kotlin', label: 'Kotlin', extensions: ['.kt', '.kts'], grammar: 'kotlin' },
+  { id: 'swift', label: 'Swift', extensions: ['.swift'], grammar: 'swift' },
+  { id: 'objectivec', label: 'Objective-C', extensions: ['.m', '.mm'], grammar: 'objectivec' },
+  { id: 'scala', label: 'Scala', extensions: ['.scala', '.sc'], grammar: 'scala' },
+  { id: 'dart', label: 'Dart', extensions: ['.dart'], grammar: 'dart' },
+  { id: 'php', label: 'PHP', extensions: ['.php', '.phtml'], grammar: 'php' },
+  { id: 'ruby', label: 'Ruby', extensions: ['.rb', '.rake', '.gemspec'], fileNames: ['Gemfile', 'Rakefile'], grammar: 'ruby' },
+  { id: 'perl', label: 'Perl', extensions: ['.pl', '.pm'], grammar: 'perl' },
+  { id: 'lua', label: 'Lua', extensions: ['.lua'], grammar: 'lua' },
+  { id: 'r', label: 'R', extensions: ['.r'], grammar: 'r' },
+  { id: 'shell', label: 'Shell', extensions: ['.sh', '.bash', '.zsh'], fileNames: ['.bashrc', '.zshrc', '.profile'], grammar: 'bash' },
+  { id: 'powershell', label: 'PowerShell', extensions: ['.ps1', '.psm1'], grammar: 'powershell' },
+  { id: 'scss', label: 'SCSS', extensions: ['.scss'], grammar: 'scss' },
+  { id: 'less', label: 'Less', extensions: ['.less'], grammar: 'less' },
+  { id: 'graphql', label: 'GraphQL', extensions: ['.graphql', '.gql'], grammar: 'graphql' },
+  { id: 'yaml', label: 'YAML', extensions: ['.yaml', '.yml'], grammar: 'yaml' },
+  { id: 'toml', label: 'TOML', extensions: ['.toml'], fileNames: ['Cargo.lock'], grammar: 'toml' },
+  { id: 'ini', label: 'INI', extensions: ['.ini', '.cfg'], fileNames: ['.editorconfig', '.gitconfig'], grammar: 'ini' },
+  { id: 'dockerfile', label: 'Dockerfile', extensions: ['.dockerfile'], fileNames: ['Dockerfile', 'Containerfile'], grammar: 'docker' },
+  { id: 'makefile', label: 'Makefile', extensions: ['.mk'], fileNames: ['Makefile', 'GNUmakefile'], grammar: 'makefile' },
+  { id: 'diff', label: 'Diff', extensions: ['.diff', '.patch'], grammar: 'diff' }
+];
+
+export const DEFAULT_LANGUAGE = 'javascript';
+
+// 语言选择框中表示自动检测的选项值
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// 检测依据，数值越大越可靠
+export type DetectionSource = 'content' | 'shebang' | 'fileName';
+
+export const DETECTION_CONFIDENCE: Record<DetectionSource, number> = {
+  content: 1,
+  shebang: 2,
+  fileName: 3
+};
+
+export interface LanguageDetection {
+  language: string;
+  source: DetectionSource;
+}
+
+const LANGUAGES_BY_ID = new Map(LANGUAGES.map(language => [language.id, language]));
+
+export const getLanguageLabel = (id: string): string => LANGUAGES_BY_ID.get(id)?.label ?? id;
+
+// 是否为支持的语言
+export const isSupportedLanguage = (id: string): boolean => LANGUAGES_BY_ID.has(id);
+
+// 导出文件时使用的扩展名
+export const getLanguageExtension = (id: string): string => LANGUAGES_BY_ID.get(id)?.extensions[0] ?? '.txt';
+
+// 代码高亮使用的 Prism 语法名
+export const getPrismGrammarName = (id: string): string => LANGUAGES_BY_ID.get(id)?.grammar ?? id;
+
+// 导入文件选择框接受的扩展名
+export const IMPORT_ACCEPT = ['.txt', ...LANGUAGES.flatMap(language => language.extensions)].join(',');
+
+// 根据文件名推断语言，无法识别时返回 null
+export const getLanguageFromFileName = (fileName: string): string | null => {
+  const baseName = fileName.split(/[/\\]/).pop() ?? '';
+  const byName = LANGUAGES.find(language => language.fileNames?.some(name => name.toLowerCase() === baseName.toLowerCase()));
+  if (byName) return byName.id;
+  // Dockerfile.dev 之类带后缀的 Dockerfile
+  if (/^(Dockerfile|Containerfile)\./i.test(baseName)) return 'dockerfile';
+  const match = /(\.[^./\\]+)$/.exec(baseName);
+  if (!match) return null;
+  const extension = match[1].toLowerCase();
+  return LANGUAGES.find(language => language.extensions.includes(extension))?.id ?? null;
+};
+
+// 根据首行的 shebang 推断语言
+const getLanguageFromShebang = (content: string): string | null => {
+  const match = /^#!\s*(\S+)(?:\s+(\S+))?/.exec(content);
+  if (!match) return null;
+  const interpreter = (match[1].endsWith('/env') ? match[2] ?? '' : match[1]).split('/').pop();
+  if (/^(ts-node|tsx|deno)$/.test(interpreter)) return 'typescript';
+  if (/^(node|nodejs|bun)$/.test(interpreter)) return 'javascript';
+  if (/^python[\d.]*$/.test(interpreter)) return 'python';
+  if (/^(sh|bash|zsh|dash|ksh)$/.test(interpreter)) return 'shell';
+  if (/^ruby$/.test(interpreter)) return 'ruby';
+  if (/^perl$/.test(interpreter)) return 'perl';
+  if (/^php$/.test(interpreter)) return 'php';
+  if (/^(pwsh|powershell)$/.test(interpreter)) return 'powershell';
+  return null;
+};
+
+// 内容特征：匹配到的语言加上对应的权重
+const CONTENT_RULES: { language: string; pattern: RegExp; weight: number }[] = [
+  { language: 'typescript', pattern: /^\s*(export\s+)?(interface|type)\s+\w+(<[^>]*>)?\s*(=|\{|extends)/m, weight: 4 },
+  { language: 'typescript', pattern: /[(,]\s*\w+\??\s*:\s*(string|number|boolean|any|unknown|void)\b/, weight: 3 },
+  { language: 'typescript', pattern: /\bimport\s+type\b|\bas\s+const\b|\b(private|public|readonly)\s+\w+\s*:/, weight: 3 },
+  { language: 'javascript', pattern: /\b(const|let|var)\s+[\w${}[\],\s]{1,200}=/, weight: 2 },
+  { language: 'javascript', pattern: /\bfunction\s*\w*\s*\(|=>\s*[{(\w]|\brequire\(|\bconsole\.\w+\(|\bexport\s+default\b/, weight: 2 },
+  { language: 'python', pattern: /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[\w[\], .]+)?:\s*$/m, weight: 4 },
+  { language: 'python', pattern: /^\s*(elif\b.*:|class\s+\w+(\(.*\))?:\s*$|from\s+[\w.]+\s+import\s+\w)/m, weight: 3 },
+  { language: 'python', pattern: /\bself\.\w+|\bprint\(|^\s*if\s+.+:\s*$|\bNone\b|\bTrue\b|\bFalse\b/m, weight: 1 },
+  { language: 'java', pattern: /\bpublic\s+(static\s+)?(final\s+)?(class|interface|enum|void)\b|\bSystem\.out\.print/, weight: 4 },
+  { language: 'java', pattern: /^\s*package\s+[\w.]+;\s*$|^\s*import\s+java\./m, weight: 4 },
+  // 选择器后续部分必须以分隔符开头，避免与前面的名称争抢同一段字符而回溯
+  { language: 'css', pattern: /^\s*([.#]?[\w-]+|\*)([\s,>+~:.#[\]="'][\s,>+~:.#[\]=\w"'-]*)?\{[^}]*[\w-]+\s*:\s*[^;{}]+;/m, weight: 3 },
+  { language: 'css', pattern: /^\s*@(media|import|keyframes|font-face)\b/m, weight: 3 },
+  { language: 'sql', pattern: /^\s*(select\s+[\s\S]+?\s+from|insert\s+into|update\s+\w+\s+set|delete\s+from|create\s+(table|view|index)|alter\s+table)\b/im, weight: 5 },
+  { language: 'markdown', pattern: /^#{1,6}\s+\S/m, weight: 2 },
+  { language: 'markdown', pattern: /^```|^\s*[-*+]\s+\S|\[[^\]\n]{1,200}\]\([^)\n]{1,500}\)|^>\s/m, weight: 1 },
+  { language: 'html', pattern: /<!doctype\s+html|<html[\s>]|<(head|body|div|span|p|a|ul|li|script|style|link|meta)\b[^>]*>/i, weight: 5 },
+  { language: 'xml', pattern: /^\s*<\?xml\b/, weight: 6 },
+  { language: 'php', pattern: /^\s*<\?php\b/, weight: 8 },
+  { language: 'go', pattern: /^\s*package\s+\w+\s*$/m, weight: 2 },
+  { language: 'go', pattern: /^\s*func\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(|\bfmt\.\w+\(|:=/m, weight: 3 },
+  { language: 'rust', pattern: /^\s*(pub\s+)?fn\s+\w+\s*(<[^>]*>)?\(/m, weight: 4 },
+  { language: 'rust', pattern: /\blet\s+mut\b|\bimpl\b.*\{|^\s*use\s+\w+::|\bprintln!\(/m, weight: 3 },
+  { language: 'c', pattern: /^\s*#\s*include\s*[<"]/m, weight: 3 },
+  { language: 'cpp', pattern: /\bstd::\w+|\btemplate\s*<|^\s*using\s+namespace\s+\w+;|\bcout\s*<</m, weight: 5 },
+  { language: 'csharp', pattern: /^\s*using\s+System(\.\w+)*;|^\s*namespace\s+[\w.]+\s*[{;]?\s*$|\bConsole\.Write/m, weight: 5 },
+  { language: 'kotlin', pattern: /^\s*fun\s+\w+\s*\(|\bval\s+\w+\s*(:\s*\w+)?\s*=/m, weight: 3 },
+  { language: 'swift', pattern: /^\s*import\s+(Foundation|UIKit|SwiftUI)\b|\bguard\s+let\b|\bfunc\s+\w+\s*\([^)]*\)\s*->/m, weight: 4 },
+  { language: 'ruby', pattern: /^\s*(def\s+\w+[?!]?(\(.*\))?|module\s+[A-Z]\w*|require\s+['"][\w/]+['"])\s*$/m, weight: 2 },
+  { language: 'ruby', pattern: /^\s*end\s*$|\bputs\s|\bdo\s*\|[\w, ]+\|/m, weight: 2 },
+  { language: 'shell', pattern: /^\s*(if\s+\[\[?\s|fi\s*$|done\s*$|echo\s|export\s+\w+=|set\s+-[euxo])/m, weight: 3 },
+  { language: 'yaml', pattern: /^---\s*$|^[\w-]+:\s*\n\s+[\w-]+:\s/m, weight: 3 },
+  { language: 'yaml', pattern: /^\s*-\s+[\w-]+:\s/m, weight: 1 },
+  { language: 'toml', pattern: /^\[\[?[\w.-]+\]\]?\s*$[\s\S]*^[\w-]+\s*=\s*["\d[{tf]/m, weight: 4 },
+  { language: 'dockerfile', pattern: /^\s*FROM\s+\S+/m, weight: 2 },
+  { language: 'dockerfile', pattern: /^\s*(RUN|COPY|CMD|ENTRYPOINT|WORKDIR|EXPOSE)\s/m, weight: 2 },
+  { language: 'diff', pattern: /^(---|\+\+\+) \S.*\n(\+\+\+|@@)|^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m, weight: 6 }
+];
+
+// 采用内容推断结果所需的最低分数，只命中一条权重为 2 的弱特征时不可靠
+const MIN_CONTENT_SCORE = 3;
+
+// 内容中是否为可解析的 JSON 对象或数组
+const isJsonContent = (trimmed: string): boolean => {
+  if (!/^[[{]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 根据代码内容推断语言
+ * 按特征规则累计各语言的权重，最高分低于 MIN_CONTENT_SCORE 时返回 null
+ */
+export const detectLanguageFromContent = (content: string): string | null => {
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+  if (isJsonContent(trimmed)) return 'json';
+
+  // 只分析开头一部分，避免大文件拖慢输入
+  const sample = trimmed.slice(0, 20000);
+  const scores = new Map<string, number>();
+  CONTENT_RULES.forEach(rule => {
+    if (rule.pattern.test(sample)) scores.set(rule.language, (scores.get(rule.language) ?? 0) + rule.weight);
+  });
+
+  // TypeScript 同时具备 JavaScript 的特征
+  if (scores.has('typescript')) scores.set('typescript', scores.get('typescript') + (scores.get('javascript') ?? 0));
+  // 以标签开头、没有 HTML 特征的内容视为 XML
+  if (!scores.has('html') && /^<[\w:-]+[\s>/]/.test(trimmed)) scores.set('xml', (scores.get('xml') ?? 0) + 3);
+
+  let best: string | null = null;
+  let bestScore = 0;
+  scores.forEach((score, language) => {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  });
+  return bestScore >= MIN_CONTENT_SCORE ? best : null;
+};
+
+/**
+ * 综合文件名、shebang 与内容推断语言
+ */
+export const detectLanguage = (content: string, fileName = ''): LanguageDetection | null => {
+  const fromFileName = fileName ? getLanguageFromFileName(fileName) : null;
+  if (fromFileName) return { language: fromFileName, source: 'fileName' };
+  const fromShebang = getLanguageFromShebang(content);
+  if (fromShebang) return { language: fromShebang, source: 'shebang' };
+  const fromContent = detectLanguageFromContent(content);
+  return fromContent ? { language: fromContent, source: 'content' } : null;
+};
@@ -0,0 +1,518 @@
+import {
+  calculateSimilarity,
+  DEFAULT_COMPARISON_OPTIONS,
+  normalizeLine,
+  type ComparisonOptions
+} from './compareOptions';
+import { detectMovedLines, type MovedLines } from './moveDetection';
+
+export { calculateSimilarity };
+
+// 差异类型定义，move 为被移动到别处的代码行
+export type DiffType = 'equal' | 'insert' | 'delete' | 'modify' | 'move';
+
+// 移动行的两端：source 为原位置（只有原始行），target 为新位置（只有修改行）
+export interface MoveLink {
+  id: number; // 移动块编号
+  role: 'source' | 'target';
+  counterpartRow: number; // 另一端对应行在结果中的位置
+}
+
+// 行差异结果接口
+export interface LineDiffResult {
+  type: DiffType;
+  originalLine?: string;
+  modifiedLine?: string;
+  originalIndex?: number;
+  modifiedIndex?: number;
+  move?: MoveLink; // 仅 move 类型
+  originalRanges?: [number, number][]; // 语法感知对比时行内变化的列范围
+  modifiedRanges?: [number, number][];
+}
+
+// 行对齐算法：myers 为经典最短编辑脚本，histogram 优先以低频行作为锚点
+export type DiffAlgorithm = 'myers' | 'histogram';
+
+export interface LineDiffOptions {
+  algorithm: DiffAlgorithm;
+  comparison?: ComparisonOptions; // 未提供时逐字比较
+  detectMoves?: boolean; // 将删除后在别处重新插入的代码块标记为移动
+}
+
+// 进度回调，progress 取值 0~1
+export type DiffProgressCallback = (progress: number) => void;
+
+export const DEFAULT_LINE_DIFF_OPTIONS: LineDiffOptions = {
+  algorithm: 'myers'
+};
+
+// 判定为"修改行"的字符相似度阈值
+const MODIFY_SIMILARITY_THRESHOLD = 0.3;
+
+// histogram 算法中锚点行允许的最大出现次数，超过则退回 Myers
+const MAX_HISTOGRAM_CHAIN = 64;
+
+// 对比上下文：行已转换为整数编号，removed/added 标记不在公共子序列中的行
+interface DiffContext {
+  a: Int32Array;
+  b: Int32Array;
+  removed: Uint8Array;
+  added: Uint8Array;
+  resolved: number;
+  total: number;
+  lastReported: number;
+  onProgress?: DiffProgressCallback;
+}
+
+// 待处理的区间 [xoff, xlim) × [yoff, ylim)
+type DiffRange = [number, number, number, number];
+
+// 将行内容映射为整数编号，后续比较只需比较数字
+const encodeLines = (
+  originalLines: string[],
+  modifiedLines: string[],
+  toKey: (line: string) => string
+): [Int32Array, Int32Array] => {
+  const ids = new Map<string, number>();
+  const encode = (lines: string[]) => {
+    const result = new Int32Array(lines.length);
+    lines.forEach((line, index) => {
+      const key = toKey(line);
+      let id = ids.get(key);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(key, id);
+      }
+      result[index] = id;
+    });
+    return result;
+  };
+  return [encode(originalLines), encode(modifiedLines)];
+};
+
+// 累计已确定的行数并按 1% 粒度上报进度
+const advance = (ctx: DiffContext, count: number) => {
+  ctx.resolved += count;
+  if (ctx.onProgress && ctx.resolved - ctx.lastReported >= ctx.total / 100) {
+    ctx.lastReported = ctx.resolved;
+    ctx.onProgress(Math.min(1, ctx.resolved / ctx.total));
+  }
+};
+
+// 去掉区间首尾的公共行，返回收缩后的区间
+const trimRange = (ctx: DiffContext, range: DiffRange): DiffRange => {
+  const { a, b } = ctx;
+  let [xoff, xlim, yoff, ylim] = range;
+  while (xoff < xlim && yoff < ylim && a[xoff] === b[yoff]) {
+    xoff++;
+    yoff++;
+  }
+  while (xlim > xoff && ylim > yoff && a[xlim - 1] === b[ylim - 1]) {
+    xlim--;
+    ylim--;
+  }
+  advance(ctx, (range[1] - range[0]) - (xlim - xoff) + (range[3] - range[2]) - (ylim - yoff));
+  return [xoff, xlim, yoff, ylim];
+};
+
+// 将整个区间标记为删除/插入
+const markRange = (ctx: DiffContext, [xoff, xlim, yoff, ylim]: DiffRange) => {
+  ctx.removed.fill(1, xoff, xlim);
+  ctx.added.fill(1, yoff, ylim);
+  advance(ctx, (xlim - xoff) + (ylim - yoff));
+};
+
+// Myers 中间蛇查找（线性空间），返回分割点；无公共行时返回 null
+const findMiddleSnake = (ctx: DiffContext, [xoff, xlim, yoff, ylim]: DiffRange): [number, number] | null => {
+  const { a, b } = ctx;
+  const n = xlim - xoff;
+  const m = ylim - yoff;
+  const maxD = Math.ceil((n + m) / 2);
+  const vOffset = maxD;
+  const vLength = 2 * maxD + 2;
+  const v1 = new Int32Array(vLength).fill(-1);
+  const v2 = new Int32Array(vLength).fill(-1);
+  v1[vOffset + 1] = 0;
+  v2[vOffset + 1] = 0;
+  const delta = n - m;
+  // 总长度为奇数时由正向搜索检测重叠，否则由反向搜索检测
+  const front = delta % 2 !== 0;
+  let k1start = 0, k1end = 0, k2start = 0, k2end = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    // 正向搜索
+    for (let k1 = -d + k1start; k1 <= d - k1end; k1 += 2) {
+      const k1Offset = vOffset + k1;
+      let x1 = k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && a[xoff + x1] === b[yoff + y1]) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      if (x1 > n) {
+        k1end += 2;
+      } else if (y1 > m) {
+        k1start += 2;
+      } else if (front) {
+        const k2Offset = vOffset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1) {
+          const x2 = n - v2[k2Offset];
+          if (x1 >= x2) {
+            return [xoff + x1, yoff + y1];
+          }
+        }
+      }
+    }
+
+    // 反向搜索
+    for (let k2 = -d + k2start; k2 <= d - k2end; k2 += 2) {
+      const k2Offset = vOffset + k2;
+      let x2 = k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && a[xlim - x2 - 1] === b[ylim - y2 - 1]) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      if (x2 > n) {
+        k2end += 2;
+      } else if (y2 > m) {
+        k2start += 2;
+      } else if (!front) {
+        const k1Offset = vOffset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = vOffset + x1 - k1Offset;
+          if (x1 >= n - x2) {
+            return [xoff + x1, yoff + y1];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+// 在区间内寻找出现次数最少的公共行作为锚点，并向两侧扩展为最长匹配块
+const findHistogramAnchor = (ctx: DiffContext, [xoff, xlim, yoff, ylim]: DiffRange) => {
+  const { a, b } = ctx;
+  const occurrences = new Map<number, number[]>();
+  for (let x = xoff; x < xlim; x++) {
+    const positions = occurrences.get(a[x]);
+    if (positions) {
+      positions.push(x);
+    } else {
+      occurrences.set(a[x], [x]);
+    }
+  }
+
+  let best: { x: number; y: number; length: number; count: number } | null = null;
+
+  for (let y = yoff; y < ylim;) {
+    const positions = occurrences.get(b[y]);
+    let nextY = y + 1;
+    if (positions && positions.length <= MAX_HISTOGRAM_CHAIN && (!best || positions.length <= best.count)) {
+      for (const x of positions) {
+        let start = 0;
+        while (x - start > xoff && y - start > yoff && a[x - start - 1] === b[y - start - 1]) {
+          start++;
+        }
+        let end = 1;
+        while (x + end < xlim && y + end < ylim && a[x + end] === b[y + end]) {
+          end++;
+        }
+        const length = start + end;
+        if (!best || positions.length < best.count || length > best.length) {
+          best = { x: x - start, y: y - start, length, count: positions.length };
+        }
+        nextY = Math.max(nextY, y + end);
+      }
+    }
+    y = nextY;
+  }
+
+  return best;
+};
+
+// Myers 分治：区间栈代替递归，避免超大输入栈溢出
+const runMyers = (ctx: DiffContext, initial: DiffRange) => {
+  const stack: DiffRange[] = [initial];
+  while (stack.length > 0) {
+    const range = trimRange(ctx, stack.pop()!);
+    const [xoff, xlim, yoff, ylim] = range;
+    if (xoff === xlim || yoff === ylim) {
+      markRange(ctx, range);
+      continue;
+    }
+    const snake = findMiddleSnake(ctx, range);
+    // 无公共行，或分割点退化（不会再缩小区间）时整体标记
+    if (!snake || (snake[0] === xoff && snake[1] === yoff) || (snake[0] === xlim && snake[1] === ylim)) {
+      markRange(ctx, range);
+      continue;
+    }
+    stack.push([snake[0], xlim, snake[1], ylim]);
+    stack.push([xoff, snake[0], yoff, snake[1]]);
+  }
+};
+
+// histogram 分治：以低频锚点切分区间，锚点过于常见时退回 Myers
+const runHistogram = (ctx: DiffContext, initial: DiffRange) => {
+  const stack: DiffRange[] = [initial];
+  while (stack.length > 0) {
+    const range = trimRange(ctx, stack.pop()!);
+    const [xoff, xlim, yoff, ylim] = range;
+    if (xoff === xlim || yoff === ylim) {
+      markRange(ctx, range);
+      continue;
+    }
+    const anchor = findHistogramAnchor(ctx, range);
+    if (!anchor) {
+      runMyers(ctx, range);
+      continue;
+    }
+    advance(ctx, anchor.length * 2);
+    stack.push([anchor.x + anchor.length, xlim, anchor.y + anchor.length, ylim]);
+    stack.push([xoff, anchor.x, yoff, anchor.y]);
+  }
+};
+
+// 将一段连续的删除/插入行配对，相似度足够高的视为修改行
+const pairChangeBlock = (
+  result: LineDiffResult[],
+  originalLines: string[],
+  modifiedLines: string[],
+  deleted: number[],
+  inserted: number[],
+  toKey: (line: string) => string
+) => {
+  const paired = Math.min(deleted.length, inserted.length);
+  for (let k = 0; k < paired; k++) {
+    const originalLine = originalLines[deleted[k]];
+    const modifiedLine = modifiedLines[inserted[k]];
+    if (calculateSimilarity(toKey(originalLine), toKey(modifiedLine)) > MODIFY_SIMILARITY_THRESHOLD) {
+      result.push({
+        type: 'modify',
+        originalLine,
+        modifiedLine,
+        originalIndex: deleted[k],
+        modifiedIndex: inserted[k]
+      });
+    } else {
+      result.push({ type: 'delete', originalLine, originalIndex: deleted[k] });
+      result.push({ type: 'insert', modifiedLine, modifiedIndex: inserted[k] });
+    }
+  }
+  deleted.slice(paired).forEach(index => {
+    result.push({ type: 'delete', originalLine: originalLines[index], originalIndex: index });
+  });
+  inserted.slice(paired).forEach(index => {
+    result.push({ type: 'insert', modifiedLine: modifiedLines[index], modifiedIndex: index });
+  });
+};
+
+// 对两组行执行对齐，返回带删除/插入标记的上下文
+const alignLines = (
+  originalLines: string[],
+  modifiedLines: string[],
+  toKey: (line: string) => string,
+  options: LineDiffOptions,
+  onProgress?: DiffProgressCallback
+): DiffContext => {
+  const [a, b] = encodeLines(originalLines, modifiedLines, toKey);
+  const ctx: DiffContext = {
+    a,
+    b,
+    removed: new Uint8Array(a.length),
+    added: new Uint8Array(b.length),
+    resolved: 0,
+    total: Math.max(1, a.length + b.length),
+    lastReported: 0,
+    onProgress
+  };
+
+  const range: DiffRange = [0, a.length, 0, b.length];
+  if (options.algorithm === 'histogram') {
+    runHistogram(ctx, range);
+  } else {
+    runMyers(ctx, range);
+  }
+  return ctx;
+};
+
+/**
+ * 计算公共行，提供对比选项时按选项规范化后比较，否则逐字节比较
+ * 返回数组中第 i 项为原始第 i 行在修改侧对应的行号，未匹配时为 -1
+ */
+export const computeLineMatches = (
+  originalLines: string[],
+  modifiedLines: string[],
+  options: LineDiffOptions = DEFAULT_LINE_DIFF_OPTIONS
+): Int32Array => {
+  const { comparison } = options;
+  const toKey = comparison ? (line: string) => normalizeLine(line, comparison) : (line: string) => line;
+  const ctx = alignLines(originalLines, modifiedLines, toKey, options);
+  const matches = new Int32Array(originalLines.length).fill(-1);
+  let j = 0;
+  for (let i = 0; i < originalLines.length; i++) {
+    if (ctx.removed[i]) continue;
+    while (ctx.added[j]) j++;
+    matches[i] = j++;
+  }
+  return matches;
+};
+
+// 按某一侧的行号把移动行插入到一段变更结果中，保持两侧行号各自递增
+const insertMoveRow = (rows: LineDiffResult[], moveRow: LineDiffResult) => {
+  const isSource = moveRow.originalIndex !== undefined;
+  const position = rows.findIndex(row => isSource
+    ? row.originalIndex !== undefined && row.originalIndex > moveRow.originalIndex
+    : row.modifiedIndex !== undefined && row.modifiedIndex > moveRow.modifiedIndex
+  );
+  rows.splice(position < 0 ? rows.length : position, 0, moveRow);
+};
+
+// 生成一段变更的结果：移动行单独列出，其余行按相似度配对
+const emitChangeBlock = (
+  result: LineDiffResult[],
+  originalLines: string[],
+  modifiedLines: string[],
+  deleted: number[],
+  inserted: number[],
+  toKey: (line: string) => string,
+  moved: MovedLines | null
+) => {
+  if (!moved) {
+    pairChangeBlock(result, originalLines, modifiedLines, deleted, inserted, toKey);
+    return;
+  }
+
+  const rows: LineDiffResult[] = [];
+  pairChangeBlock(
+    rows,
+    originalLines,
+    modifiedLines,
+    deleted.filter(index => moved.originalToModified[index] < 0),
+    inserted.filter(index => moved.modifiedToOriginal[index] < 0),
+    toKey
+  );
+  deleted.filter(index => moved.originalToModified[index] >= 0).forEach(index => {
+    insertMoveRow(rows, { type: 'move', originalLine: originalLines[index], originalIndex: index });
+  });
+  inserted.filter(index => moved.modifiedToOriginal[index] >= 0).forEach(index => {
+    insertMoveRow(rows, { type: 'move', modifiedLine: modifiedLines[index], modifiedIndex: index });
+  });
+  result.push(...rows);
+};
+
+// 为移动行填写两端的关联
+const linkMoveRows = (result: LineDiffResult[], moved: MovedLines) => {
+  const sourceRows = new Map<number, number>();
+  const targetRows = new Map<number, number>();
+  result.forEach((row, index) => {
+    if (row.type !== 'move') return;
+    if (row.originalIndex !== undefined) sourceRows.set(row.originalIndex, index);
+    if (row.modifiedIndex !== undefined) targetRows.set(row.modifiedIndex, index);
+  });
+
+  result.forEach(row => {
+    if (row.type !== 'move') return;
+    if (row.originalIndex !== undefined) {
+      row.move = {
+        id: moved.originalBlockId[row.originalIndex],
+        role: 'source',
+        counterpartRow: targetRows.get(moved.originalToModified[row.originalIndex])
+      };
+    } else {
+      row.move = {
+        id: moved.modifiedBlockId[row.modifiedIndex],
+        role: 'target',
+        counterpartRow: sourceRows.get(moved.modifiedToOriginal[row.modifiedIndex])
+      };
+    }
+  });
+};
+
+// 忽略末尾换行时，去掉末尾换行符产生的空行
+const dropTrailingEmptyLine = (lines: string[], options: ComparisonOptions): string[] => {
+  if (!options.ignoreTrailingNewline || lines.length < 2) return lines;
+  const last = lines[lines.length - 1];
+  return last === '' || (options.normalizeLineEndings && last === '\r') ? lines.slice(0, -1) : lines;
+};
+
+/**
+ * 线性空间的智能行对齐
+ * 先用 Myers 或 histogram 算法求出公共行，再把相邻的删除/插入按相似度配对为修改行
+ * 开启 detectMoves 时，先把在别处重新出现的删除块标记为移动，不参与配对
+ */
+export const computeLineDiff = (
+  allOriginalLines: string[],
+  allModifiedLines: string[],
+  options: LineDiffOptions = DEFAULT_LINE_DIFF_OPTIONS,
+  onProgress?: DiffProgressCallback
+): LineDiffResult[] => {
+  const comparison = options.comparison ?? DEFAULT_COMPARISON_OPTIONS;
+  const toKey = (line: string) => normalizeLine(line, comparison);
+  const originalLines = dropTrailingEmptyLine(allOriginalLines, comparison);
+  const modifiedLines = dropTrailingEmptyLine(allModifiedLines, comparison);
+  const ctx = alignLines(originalLines, modifiedLines, toKey, options, onProgress);
+  const { a, b } = ctx;
+  const moved = options.detectMoves
+    ? detectMovedLines(originalLines, modifiedLines, ctx.removed, ctx.added, toKey)
+    : null;
+
+  // 按标记生成差异结果
+  const result: LineDiffResult[] = [];
+  let i = 0, j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && !ctx.removed[i] && !ctx.added[j]) {
+      result.push({
+        type: 'equal',
+        originalLine: originalLines[i],
+        modifiedLine: modifiedLines[j],
+        originalIndex: i,
+        modifiedIndex: j
+      });
+      i++;
+      j++;
+      continue;
+    }
+
+    const deleted: number[] = [];
+    const inserted: number[] = [];
+    while (i < a.length && ctx.removed[i]) {
+      deleted.push(i++);
+    }
+    while (j < b.length && ctx.added[j]) {
+      inserted.push(j++);
+    }
+    if (deleted.length === 0 && inserted.length === 0) break;
+    emitChangeBlock(result, originalLines, modifiedLines, deleted, inserted, toKey, moved);
+  }
+
+  if (moved && moved.blockCount > 0) {
+    linkMoveRows(result, moved);
+  }
+
+  // 被忽略的末尾空行作为相等行补回，保证每一行都出现在结果中
+  const originalTail = originalLines.length < allOriginalLines.length ? originalLines.length : undefined;
+  const modifiedTail = modifiedLines.length < allModifiedLines.length ? modifiedLines.length : undefined;
+  if (originalTail !== undefined || modifiedTail !== undefined) {
+    result.push({
+      type: 'equal',
+      originalLine: originalTail !== undefined ? allOriginalLines[originalTail] : undefined,
+      modifiedLine: modifiedTail !== undefined ? allModifiedLines[modifiedTail] : undefined,
+      originalIndex: originalTail,
+      modifiedIndex: modifiedTail
+    });
+  }
+
+  onProgress?.(1);
+  return result;
+};
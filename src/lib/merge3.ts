@@ -0,0 +1,183 @@
+import { normalizeLine } from './compareOptions';
+import { computeLineMatches, DEFAULT_LINE_DIFF_OPTIONS, type LineDiffOptions } from './lineDiff';
+
+// 冲突的解决方式：采用我方、对方，或两者都保留（我方在前）
+export type ConflictResolution = 'ours' | 'theirs' | 'both';
+
+// 三方合并的结果区域
+export type MergeRegion =
+  | { kind: 'stable'; lines: string[] } // 三方一致
+  | { kind: 'auto'; source: 'ours' | 'theirs' | 'both'; lines: string[]; base: string[] } // 仅一方修改或双方修改一致
+  | { kind: 'conflict'; base: string[]; ours: string[]; theirs: string[] }; // 双方修改不一致
+
+// 导出合并结果的配置
+export interface MergeExportOptions {
+  markers: boolean; // 未解决的冲突是否写入冲突标记，否则采用我方
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+// 从终端粘贴的冲突文本中解析出的三方内容
+export interface ParsedConflictText {
+  base: string;
+  ours: string;
+  theirs: string;
+  conflictCount: number;
+}
+
+// 对不稳定区间进行分类，toKey 为行的比较依据
+const classifyChunk = (
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  toKey: (line: string) => string
+): MergeRegion => {
+  const sameLines = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((line, index) => toKey(line) === toKey(b[index]));
+  if (sameLines(ours, base)) return { kind: 'auto', source: 'theirs', lines: theirs, base };
+  if (sameLines(theirs, base)) return { kind: 'auto', source: 'ours', lines: ours, base };
+  if (sameLines(ours, theirs)) return { kind: 'auto', source: 'both', lines: ours, base };
+  return { kind: 'conflict', base, ours, theirs };
+};
+
+/**
+ * diff3 风格的三方合并
+ * 以基础版本中同时与双方匹配的行为稳定点，稳定点之间的区间按修改方分类
+ * 提供对比选项时按选项规范化后比较行，与两方对比的结果一致；稳定区域保留我方的写法
+ */
+export const computeThreeWayMerge = (
+  baseCode: string,
+  oursCode: string,
+  theirsCode: string,
+  options: LineDiffOptions = DEFAULT_LINE_DIFF_OPTIONS
+): MergeRegion[] => {
+  const base = baseCode.split('\n');
+  const ours = oursCode.split('\n');
+  const theirs = theirsCode.split('\n');
+  const oursMatches = computeLineMatches(base, ours, options);
+  const theirsMatches = computeLineMatches(base, theirs, options);
+  const { comparison } = options;
+  const toKey = comparison ? (line: string) => normalizeLine(line, comparison) : (line: string) => line;
+
+  const regions: MergeRegion[] = [];
+  const pushStable = (line: string) => {
+    const last = regions[regions.length - 1];
+    if (last?.kind === 'stable') {
+      last.lines.push(line);
+    } else {
+      regions.push({ kind: 'stable', lines: [line] });
+    }
+  };
+
+  let i = 0, j = 0, k = 0;
+  while (i < base.length || j < ours.length || k < theirs.length) {
+    // 找到下一个在三方中都存在的基础行
+    let next = i;
+    while (next < base.length && (oursMatches[next] < 0 || theirsMatches[next] < 0)) {
+      next++;
+    }
+
+    const oursEnd = next < base.length ? oursMatches[next] : ours.length;
+    const theirsEnd = next < base.length ? theirsMatches[next] : theirs.length;
+
+    if (next > i || oursEnd > j || theirsEnd > k) {
+      regions.push(classifyChunk(base.slice(i, next), ours.slice(j, oursEnd), theirs.slice(k, theirsEnd), toKey));
+    }
+
+    if (next >= base.length) break;
+    pushStable(ours[oursEnd]);
+    i = next + 1;
+    j = oursEnd + 1;
+    k = theirsEnd + 1;
+  }
+
+  return regions;
+};
+
+// 统计冲突数量
+export const countConflicts = (regions: MergeRegion[]): number => {
+  return regions.filter(region => region.kind === 'conflict').length;
+};
+
+/**
+ * 生成合并后的文本
+ * resolutions 以区域下标为键，记录每个冲突的解决方式
+ */
+export const buildMergedCode = (
+  regions: MergeRegion[],
+  resolutions: Record<number, ConflictResolution>,
+  options: MergeExportOptions
+): string => {
+  const lines: string[] = [];
+  regions.forEach((region, index) => {
+    if (region.kind !== 'conflict') {
+      lines.push(...region.lines);
+      return;
+    }
+
+    const resolution = resolutions[index];
+    if (resolution === 'ours') {
+      lines.push(...region.ours);
+    } else if (resolution === 'theirs') {
+      lines.push(...region.theirs);
+    } else if (resolution === 'both') {
+      lines.push(...region.ours, ...region.theirs);
+    } else if (options.markers) {
+      lines.push(
+        `<<<<<<< ${options.oursLabel}`,
+        ...region.ours,
+        '=======',
+        ...region.theirs,
+        `>>>>>>> ${options.theirsLabel}`
+      );
+    } else {
+      lines.push(...region.ours);
+    }
+  });
+  return lines.join('\n');
+};
+
+/**
+ * 解析带有冲突标记的文本（git 默认格式或 diff3 格式）
+ * 没有 ||||||| 基础段时，基础版本只包含冲突以外的公共部分
+ */
+export const parseConflictMarkers = (text: string): ParsedConflictText | null => {
+  const base: string[] = [];
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  let section: 'common' | 'ours' | 'base' | 'theirs' = 'common';
+  let conflictCount = 0;
+
+  for (const line of text.split('\n')) {
+    if (section === 'common' && line.startsWith('<<<<<<<')) {
+      section = 'ours';
+      conflictCount++;
+    } else if (section === 'ours' && line.startsWith('|||||||')) {
+      section = 'base';
+    } else if ((section === 'ours' || section === 'base') && line.startsWith('=======')) {
+      section = 'theirs';
+    } else if (section === 'theirs' && line.startsWith('>>>>>>>')) {
+      section = 'common';
+    } else if (section === 'common') {
+      base.push(line);
+      ours.push(line);
+      theirs.push(line);
+    } else if (section === 'ours') {
+      ours.push(line);
+    } else if (section === 'base') {
+      base.push(line);
+    } else {
+      theirs.push(line);
+    }
+  }
+
+  // 没有冲突或标记不完整
+  if (conflictCount === 0 || section !== 'common') return null;
+
+  return {
+    base: base.join('\n'),
+    ours: ours.join('\n'),
+    theirs: theirs.join('\n'),
+    conflictCount
+  };
+};
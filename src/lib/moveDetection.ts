@@ -0,0 +1,98 @@
+import { calculateSimilarity } from './compareOptions';
+
+// 检测到的移动行：被删除的原始行与在别处插入的修改行一一对应
+export interface MovedLines {
+  originalToModified: Int32Array; // 原始行移动到的修改行，未移动为 -1
+  modifiedToOriginal: Int32Array;
+  originalBlockId: Int32Array; // 所属移动块编号，未移动为 -1
+  modifiedBlockId: Int32Array;
+  blockCount: number;
+}
+
+// 移动块至少包含的行数与有效字符数，避免把零散的括号、空行识别为移动
+const MIN_MOVE_LINES = 3;
+const MIN_MOVE_CHARS = 20;
+
+// 移动块内允许少量修改：相似度不低于该值的行视为同一行
+const MOVE_SIMILARITY_THRESHOLD = 0.6;
+
+// 每个锚点行最多尝试的候选位置
+const MAX_ANCHOR_CANDIDATES = 32;
+
+/**
+ * 在删除行与插入行之间检测移动的代码块
+ * 以内容完全相同的非空行为锚点，向前后扩展相似的连续行，取最长的一段作为移动块
+ */
+export const detectMovedLines = (
+  originalLines: string[],
+  modifiedLines: string[],
+  removed: Uint8Array,
+  added: Uint8Array,
+  toKey: (line: string) => string
+): MovedLines => {
+  const originalToModified = new Int32Array(originalLines.length).fill(-1);
+  const modifiedToOriginal = new Int32Array(modifiedLines.length).fill(-1);
+  const originalBlockId = new Int32Array(originalLines.length).fill(-1);
+  const modifiedBlockId = new Int32Array(modifiedLines.length).fill(-1);
+  let blockCount = 0;
+
+  const originalKeys = originalLines.map((line, index) => (removed[index] ? toKey(line) : ''));
+  const modifiedKeys = modifiedLines.map((line, index) => (added[index] ? toKey(line) : ''));
+
+  // 插入行按内容建立索引
+  const addedByKey = new Map<string, number[]>();
+  modifiedKeys.forEach((key, index) => {
+    if (!added[index] || !key.trim()) return;
+    const list = addedByKey.get(key);
+    if (!list) {
+      addedByKey.set(key, [index]);
+    } else if (list.length < MAX_ANCHOR_CANDIDATES) {
+      list.push(index);
+    }
+  });
+
+  // 两行是否都可用且内容相同或足够相似
+  const linesMatch = (i: number, j: number): boolean => {
+    if (!removed[i] || !added[j] || originalToModified[i] >= 0 || modifiedToOriginal[j] >= 0) return false;
+    if (originalKeys[i] === modifiedKeys[j]) return true;
+    return calculateSimilarity(originalKeys[i], modifiedKeys[j]) >= MOVE_SIMILARITY_THRESHOLD;
+  };
+
+  for (let i = 0; i < originalLines.length; i++) {
+    if (!removed[i] || originalToModified[i] >= 0) continue;
+    const candidates = addedByKey.get(originalKeys[i]);
+    if (!candidates) continue;
+
+    let best: { i: number; j: number; length: number } | null = null;
+    for (const j of candidates) {
+      if (modifiedToOriginal[j] >= 0) continue;
+
+      let before = 0;
+      while (i - before > 0 && j - before > 0 && linesMatch(i - before - 1, j - before - 1)) before++;
+      let after = 1;
+      while (i + after < originalLines.length && j + after < modifiedLines.length && linesMatch(i + after, j + after)) after++;
+
+      if (!best || before + after > best.length) {
+        best = { i: i - before, j: j - before, length: before + after };
+      }
+    }
+
+    if (!best || best.length < MIN_MOVE_LINES) continue;
+
+    let chars = 0;
+    for (let k = 0; k < best.length; k++) {
+      chars += originalKeys[best.i + k].replace(/\s+/g, '').length;
+    }
+    if (chars < MIN_MOVE_CHARS) continue;
+
+    for (let k = 0; k < best.length; k++) {
+      originalToModified[best.i + k] = best.j + k;
+      modifiedToOriginal[best.j + k] = best.i + k;
+      originalBlockId[best.i + k] = blockCount;
+      modifiedBlockId[best.j + k] = blockCount;
+    }
+    blockCount++;
+  }
+
+  return { originalToModified, modifiedToOriginal, originalBlockId, modifiedBlockId, blockCount };
+};
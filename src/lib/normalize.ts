@@ -0,0 +1,269 @@
+import { parseJsonWithLocations, type JsonNode } from './jsonAst';
+
+// 对比前格式化的选项
+export interface NormalizeOptions {
+  language: string;
+  tabWidth: number; // 缩进宽度，同时用于展开制表符
+}
+
+// 格式化结果，lineMap 记录每个格式化后的行来自原文的哪一行
+export interface NormalizedText {
+  lines: string[];
+  lineMap: number[];
+}
+
+export const DEFAULT_TAB_WIDTH = 2;
+
+// HTML 中没有结束标签的元素
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+// 内容按原样保留、不解析标签的元素
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'pre', 'textarea']);
+
+// 需要统一为大写的 SQL 关键字
+const SQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'like', 'between', 'exists',
+  'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'alter', 'drop', 'table', 'view',
+  'index', 'unique', 'primary', 'foreign', 'key', 'references', 'default', 'constraint', 'check',
+  'join', 'inner', 'left', 'right', 'full', 'outer', 'cross', 'on', 'using', 'as', 'distinct',
+  'group', 'by', 'order', 'having', 'limit', 'offset', 'union', 'all', 'intersect', 'except',
+  'case', 'when', 'then', 'else', 'end', 'asc', 'desc', 'with', 'recursive', 'returning',
+  'begin', 'commit', 'rollback', 'transaction', 'if', 'cascade', 'true', 'false'
+]);
+
+// 原文每行的起始偏移
+const getLineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') starts.push(index + 1);
+  }
+  return starts;
+};
+
+// 偏移所在的原文行
+const offsetToLine = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// 逐行变换，行号一一对应
+const mapLines = (text: string, transform: (line: string, index: number) => string): NormalizedText => {
+  const lines = text.split('\n').map(transform);
+  return { lines, lineMap: lines.map((_, index) => index) };
+};
+
+// 收集格式化输出，并记录每行对应的原文位置
+const createWriter = (text: string) => {
+  const lineStarts = getLineStarts(text);
+  const lines: string[] = [];
+  const lineMap: number[] = [];
+  return {
+    emit: (line: string, offset: number) => {
+      lines.push(line);
+      lineMap.push(offsetToLine(lineStarts, offset));
+    },
+    result: (): NormalizedText => ({ lines, lineMap })
+  };
+};
+
+// 以统一缩进重新输出 JSON，保持键顺序与原始的值写法
+const formatJson = (text: string, tabWidth: number): NormalizedText => {
+  const root = parseJsonWithLocations(text);
+  const writer = createWriter(text);
+  const unit = ' '.repeat(tabWidth);
+
+  const print = (node: JsonNode, indent: string, prefix: string, suffix: string, offset: number) => {
+    if (node.type === 'object' || node.type === 'array') {
+      const children = node.type === 'object'
+        ? node.properties.map(property => ({ prefix: `${JSON.stringify(property.key)}: `, node: property.value, offset: property.start }))
+        : node.items.map(item => ({ prefix: '', node: item, offset: item.start }));
+      const [open, close] = node.type === 'object' ? ['{', '}'] : ['[', ']'];
+
+      if (children.length === 0) {
+        writer.emit(`${indent}${prefix}${open}${close}${suffix}`, offset);
+        return;
+      }
+      writer.emit(`${indent}${prefix}${open}`, offset);
+      children.forEach((child, index) => {
+        print(child.node, indent + unit, child.prefix, index < children.length - 1 ? ',' : '', child.offset);
+      });
+      writer.emit(`${indent}${close}${suffix}`, node.end - 1);
+      return;
+    }
+    writer.emit(`${indent}${prefix}${text.slice(node.start, node.end)}${suffix}`, offset);
+  };
+
+  print(root, '', '', '', root.start);
+  return writer.result();
+};
+
+// 按名称排序属性，统一使用双引号
+const formatAttributes = (source: string): string => {
+  const attributes: { name: string; text: string }[] = [];
+  const pattern = /([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const [, name, rawValue] = match;
+    if (rawValue === undefined) {
+      attributes.push({ name, text: name });
+      continue;
+    }
+    const value = /^["']/.test(rawValue) ? rawValue.slice(1, -1) : rawValue;
+    attributes.push({ name, text: value.includes('"') ? `${name}='${value}'` : `${name}="${value}"` });
+  }
+  return attributes
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .map(attribute => ` ${attribute.text}`)
+    .join('');
+};
+
+/**
+ * 规范化 XML/HTML：每个标签单独一行并按层级缩进，属性按名称排序
+ * 注释、声明与 script/style 等元素的内容按原样逐行保留
+ */
+const formatMarkup = (text: string, tabWidth: number, isHtml: boolean): NormalizedText => {
+  const writer = createWriter(text);
+  const unit = ' '.repeat(tabWidth);
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>?|<\/?[A-Za-z][^\s/>]*(?:"[^"]*"|'[^']*'|[^'">])*>?|[^<]+|</g;
+  let depth = 0;
+  let match: RegExpExecArray | null;
+
+  // 多行内容逐行输出，去掉原有缩进
+  const emitText = (content: string, offset: number, keepIndent = false) => {
+    let lineOffset = offset;
+    content.split('\n').forEach(line => {
+      const value = keepIndent ? line.replace(/\s+$/, '') : line.trim();
+      if (value) writer.emit(keepIndent ? value : unit.repeat(depth) + value, lineOffset);
+      lineOffset += line.length + 1;
+    });
+  };
+
+  while ((match = pattern.exec(text))) {
+    const token = match[0];
+    const offset = match.index;
+    const tag = /^<(\/?)([A-Za-z][^\s/>]*)([\s\S]*?)(\/?)>$/.exec(token);
+
+    if (!tag) {
+      emitText(token, offset);
+      continue;
+    }
+
+    const [, closing, rawName, rawAttributes, selfClosing] = tag;
+    const name = isHtml ? rawName.toLowerCase() : rawName;
+    if (closing) {
+      depth = Math.max(0, depth - 1);
+      writer.emit(`${unit.repeat(depth)}</${name}>`, offset);
+      continue;
+    }
+
+    writer.emit(`${unit.repeat(depth)}<${name}${formatAttributes(rawAttributes)}${selfClosing ? ' /' : ''}>`, offset);
+    if (selfClosing || (isHtml && VOID_ELEMENTS.has(name))) continue;
+
+    // 原样保留的元素直接输出到对应的结束标签
+    if (isHtml && RAW_TEXT_ELEMENTS.has(name)) {
+      const closeTag = new RegExp(`</${name}\\s*>`, 'ig');
+      closeTag.lastIndex = pattern.lastIndex;
+      const close = closeTag.exec(text);
+      const contentEnd = close ? close.index : text.length;
+      emitText(text.slice(pattern.lastIndex, contentEnd), pattern.lastIndex, name === 'pre' || name === 'textarea');
+      if (close) writer.emit(`${unit.repeat(depth)}</${name}>`, close.index);
+      pattern.lastIndex = close ? close.index + close[0].length : text.length;
+      continue;
+    }
+    depth++;
+  }
+
+  return writer.result();
+};
+
+// 行首缩进宽度，制表符按 tabWidth 展开
+const measureIndent = (indent: string, tabWidth: number): number => {
+  let width = 0;
+  for (const char of indent) {
+    width = char === '\t' ? width + tabWidth - (width % tabWidth) : width + 1;
+  }
+  return width;
+};
+
+// 推断缩进单位：取相邻非空行缩进增加量中出现最多的一个，单个空格（如注释块的对齐）仅在别无选择时采用
+const detectIndentUnit = (widths: number[], fallback: number): number => {
+  const counts = new Map<number, number>();
+  let previous = 0;
+  widths.forEach(width => {
+    if (width < 0) return;
+    if (width > previous) counts.set(width - previous, (counts.get(width - previous) ?? 0) + 1);
+    previous = width;
+  });
+  if (counts.size > 1) counts.delete(1);
+
+  let unit = fallback;
+  let best = 0;
+  counts.forEach((count, delta) => {
+    if (count > best || (count === best && delta < unit)) {
+      unit = delta;
+      best = count;
+    }
+  });
+  return unit;
+};
+
+/**
+ * 统一代码缩进：推断原文的缩进单位，按层级重新以 tabWidth 个空格缩进，并去掉行尾空白
+ * 不足一级的缩进（如注释块中的对齐空格）原样保留
+ */
+const reindent = (text: string, tabWidth: number): NormalizedText => {
+  const rawLines = text.split('\n');
+  const widths = rawLines.map(line => (line.trim() ? measureIndent(/^[ \t]*/.exec(line)[0], tabWidth) : -1));
+  const indentUnit = detectIndentUnit(widths, tabWidth);
+
+  return mapLines(text, (line, index) => {
+    const content = line.trim();
+    if (!content) return '';
+    const width = widths[index];
+    return ' '.repeat(Math.floor(width / indentUnit) * tabWidth + (width % indentUnit)) + content;
+  });
+};
+
+// SQL 关键字转为大写，字符串、带引号的标识符与注释保持不变
+const formatSql = (text: string, tabWidth: number): NormalizedText => {
+  const uppercased = text.replace(
+    /('(?:[^']|'')*'?|"[^"]*"?|`[^`]*`?|--[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|\b[A-Za-z_]+\b/g,
+    (token, literal) => (literal || !SQL_KEYWORDS.has(token.toLowerCase()) ? token : token.toUpperCase())
+  );
+  return reindent(uppercased, tabWidth);
+};
+
+/**
+ * 对比前格式化代码
+ * 按语言选择格式化方式，无法解析时退回统一缩进；返回的行映射用于把差异对应回原文
+ */
+export const normalizeForDiff = (text: string, options: NormalizeOptions): NormalizedText => {
+  const tabWidth = Math.max(1, options.tabWidth);
+  try {
+    switch (options.language) {
+      case 'json':
+        return formatJson(text, tabWidth);
+      case 'xml':
+      case 'html':
+        return formatMarkup(text, tabWidth, options.language === 'html');
+      case 'sql':
+        return formatSql(text, tabWidth);
+      case 'markdown':
+        return mapLines(text, line => line.replace(/\s+$/, ''));
+    }
+  } catch (error) {
+    console.warn('Failed to format before diff, falling back to re-indent:', error);
+  }
+  return reindent(text, tabWidth);
+};
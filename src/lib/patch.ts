@@ -0,0 +1,272 @@
+import type { LineDiffResult } from './lineDiff';
+
+// 补丁导出配置
+export interface UnifiedPatchOptions {
+  oldFileName: string;
+  newFileName: string;
+  context: number; // 每个hunk前后保留的上下文行数
+}
+
+// 补丁中的一行：' ' 上下文、'-' 删除、'+' 新增
+interface PatchLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+  noNewline: boolean; // 是否为文件末尾且没有换行符
+}
+
+// 文件中的一行及其末尾是否缺少换行符
+interface SideLine {
+  text: string;
+  noNewline: boolean;
+}
+
+export const DEFAULT_PATCH_CONTEXT = 3;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+// 计算文件的实际行数：末尾换行符产生的空行不计入
+const countFileLines = (code: string): number => {
+  if (code === '') return 0;
+  const lines = code.split('\n');
+  return code.endsWith('\n') ? lines.length - 1 : lines.length;
+};
+
+// 取某一侧的行，越过实际行数的行（末尾换行产生的空行）视为不存在
+const getSideLine = (
+  line: string | undefined,
+  index: number | undefined,
+  lineCount: number,
+  endsWithNewline: boolean
+): SideLine | null => {
+  if (line === undefined || index === undefined || index >= lineCount) return null;
+  return { text: line, noNewline: index === lineCount - 1 && !endsWithNewline };
+};
+
+// 将对比结果展开为补丁行，同一段修改中先列出删除再列出新增
+const buildPatchLines = (originalCode: string, modifiedCode: string, lineDiffs: LineDiffResult[]): PatchLine[] => {
+  const originalCount = countFileLines(originalCode);
+  const modifiedCount = countFileLines(modifiedCode);
+  const originalEndsWithNewline = originalCode.endsWith('\n');
+  const modifiedEndsWithNewline = modifiedCode.endsWith('\n');
+
+  const result: PatchLine[] = [];
+  let removed: PatchLine[] = [];
+  let added: PatchLine[] = [];
+
+  const flush = () => {
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  lineDiffs.forEach(item => {
+    const original = getSideLine(item.originalLine, item.originalIndex, originalCount, originalEndsWithNewline);
+    const modified = getSideLine(item.modifiedLine, item.modifiedIndex, modifiedCount, modifiedEndsWithNewline);
+
+    // 对比时忽略了首尾空白，这里必须逐字节相同才能作为上下文
+    if (original && modified && original.text === modified.text && original.noNewline === modified.noNewline) {
+      flush();
+      result.push({ kind: ' ', ...original });
+      return;
+    }
+    if (original) removed.push({ kind: '-', ...original });
+    if (modified) added.push({ kind: '+', ...modified });
+  });
+  flush();
+
+  return result;
+};
+
+// 格式化hunk范围，长度为1时按惯例省略
+const formatRange = (start: number, length: number): string => {
+  if (length === 0) return `${start},0`;
+  return length === 1 ? `${start}` : `${start},${length}`;
+};
+
+/**
+ * 生成统一格式（unified diff）补丁
+ * 输出可被 `git apply` 与 `patch -p1` 直接使用
+ */
+export const createUnifiedPatch = (
+  originalCode: string,
+  modifiedCode: string,
+  lineDiffs: LineDiffResult[],
+  options: UnifiedPatchOptions
+): string => {
+  const lines = buildPatchLines(originalCode, modifiedCode, lineDiffs);
+  const context = Math.max(0, Math.floor(options.context));
+
+  // 找出所有变更行的位置
+  const changeIndexes: number[] = [];
+  lines.forEach((line, index) => {
+    if (line.kind !== ' ') changeIndexes.push(index);
+  });
+  if (changeIndexes.length === 0) return '';
+
+  // 相邻变更之间的上下文不超过 2*context 时合并为同一个hunk
+  const ranges: [number, number][] = [];
+  changeIndexes.forEach(index => {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  });
+
+  const output: string[] = [
+    `--- a/${options.oldFileName}`,
+    `+++ b/${options.newFileName}`
+  ];
+
+  // 逐行推进时记录已经过的原始/修改行数
+  let cursor = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  const advanceTo = (target: number) => {
+    for (; cursor < target; cursor++) {
+      if (lines[cursor].kind !== '+') oldLine++;
+      if (lines[cursor].kind !== '-') newLine++;
+    }
+  };
+
+  ranges.forEach(([first, last]) => {
+    const start = Math.max(0, first - context);
+    const end = Math.min(lines.length - 1, last + context);
+    advanceTo(start);
+
+    const hunk = lines.slice(start, end + 1);
+    const oldLength = hunk.filter(line => line.kind !== '+').length;
+    const newLength = hunk.filter(line => line.kind !== '-').length;
+    const oldStart = oldLength === 0 ? oldLine : oldLine + 1;
+    const newStart = newLength === 0 ? newLine : newLine + 1;
+
+    output.push(`@@ -${formatRange(oldStart, oldLength)} +${formatRange(newStart, newLength)} @@`);
+    hunk.forEach(line => {
+      output.push(`${line.kind}${line.text}`);
+      if (line.noNewline) output.push(NO_NEWLINE_MARKER);
+    });
+  });
+
+  return output.join('\n') + '\n';
+};
+
+// 解析得到的hunk
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: PatchLine[];
+}
+
+// 解析得到的单个文件补丁
+export interface PatchFile {
+  oldFileName: string;
+  newFileName: string;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// 解析 ---/+++ 行中的文件名，去掉 a/ b/ 前缀与制表符后的时间戳
+const parseFileName = (header: string): string => {
+  const name = header.slice(4).split('\t')[0].trim();
+  if (name === '/dev/null') return '';
+  return name.replace(/^[ab]\//, '');
+};
+
+/**
+ * 解析统一格式 / git 格式补丁
+ * 支持多文件与 `\ No newline at end of file` 标记，无法识别的元数据行会被跳过
+ */
+export const parsePatch = (text: string): PatchFile[] => {
+  const lines = text.split('\n');
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+
+  const startFile = () => {
+    current = { oldFileName: '', newFileName: '', hunks: [] };
+    files.push(current);
+    return current;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    if (line.startsWith('diff --git ')) {
+      const file = startFile();
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      if (match) {
+        file.oldFileName = match[1];
+        file.newFileName = match[2];
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // git 格式已在 diff --git 行创建了文件，且尚未读到hunk
+      const file: PatchFile = current && current.hunks.length === 0 ? current : startFile();
+      const oldName = parseFileName(line);
+      const newName = parseFileName(lines[i + 1].replace(/\r$/, ''));
+      file.oldFileName = oldName || newName || file.oldFileName;
+      file.newFileName = newName || oldName || file.newFileName;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (!header) continue;
+
+    const hunk: PatchHunk = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: []
+    };
+    (current ?? startFile()).hunks.push(hunk);
+
+    // 按hunk头声明的行数读取内容
+    let oldRemaining = hunk.oldLines;
+    let newRemaining = hunk.newLines;
+    while (i + 1 < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i + 1].startsWith('\\'))) {
+      const body = lines[++i];
+      if (body.startsWith('\\')) {
+        const previous = hunk.lines[hunk.lines.length - 1];
+        if (previous) previous.noNewline = true;
+        continue;
+      }
+      // 部分工具会去掉空上下文行前的空格
+      const kind = (body === '' ? ' ' : body[0]) as PatchLine['kind'];
+      if (kind !== ' ' && kind !== '-' && kind !== '+') {
+        i--;
+        break;
+      }
+      hunk.lines.push({ kind, text: body.slice(1), noNewline: false });
+      if (kind !== '+') oldRemaining--;
+      if (kind !== '-') newRemaining--;
+    }
+  }
+
+  return files.filter(file => file.hunks.length > 0);
+};
+
+// 拼接某一侧的行，末尾行带有无换行标记时不补换行符
+const joinSide = (lines: PatchLine[]): string => {
+  if (lines.length === 0) return '';
+  const text = lines.map(line => line.text).join('\n');
+  return lines[lines.length - 1].noNewline ? text : text + '\n';
+};
+
+/**
+ * 由补丁还原两侧代码
+ * 只能还原hunk覆盖的区域，各hunk按顺序拼接
+ */
+export const reconstructFromPatch = (file: PatchFile): { original: string; modified: string } => {
+  const lines = file.hunks.flatMap(hunk => hunk.lines);
+  return {
+    original: joinSide(lines.filter(line => line.kind !== '+')),
+    modified: joinSide(lines.filter(line => line.kind !== '-'))
+  };
+};
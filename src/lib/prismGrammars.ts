@@ -0,0 +1,122 @@
+import Prism from 'prismjs';
+
+// Prism 语法组件：require 为需要先加载的组件，load 按需加载组件代码
+interface PrismComponent {
+  require?: string[];
+  load: () => Promise<unknown>;
+}
+
+// 随 Prism 核心一起加载的组件
+const CORE_COMPONENTS = new Set(['markup', 'css', 'clike', 'javascript']);
+
+const PRISM_COMPONENTS: Record<string, PrismComponent> = {
+  'markup-templating': { require: ['markup'], load: () => import('prismjs/components/prism-markup-templating') },
+  typescript: { require: ['javascript'], load: () => import('prismjs/components/prism-typescript') },
+  python: { load: () => import('prismjs/components/prism-python') },
+  java: { require: ['clike'], load: () => import('prismjs/components/prism-java') },
+  json: { load: () => import('prismjs/components/prism-json') },
+  markdown: { require: ['markup'], load: () => import('prismjs/components/prism-markdown') },
+  sql: { load: () => import('prismjs/components/prism-sql') },
+  go: { require: ['clike'], load: () => import('prismjs/components/prism-go') },
+  rust: { load: () => import('prismjs/components/prism-rust') },
+  c: { require: ['clike'], load: () => import('prismjs/components/prism-c') },
+  cpp: { require: ['c'], load: () => import('prismjs/components/prism-cpp') },
+  csharp: { require: ['clike'], load: () => import('prismjs/components/prism-csharp') },
+  kotlin: { require: ['clike'], load: () => import('prismjs/components/prism-kotlin') },
+  swift: { load: () => import('prismjs/components/prism-swift') },
+  objectivec: { require: ['c'], load: () => import('prismjs/components/prism-objectivec') },
+  scala: { require: ['java'], load: () => import('prismjs/components/prism-scala') },
+  dart: { require: ['clike'], load: () => import('prismjs/components/prism-dart') },
+  php: { require: ['markup-templating'], load: () => import('prismjs/components/prism-php') },
+  ruby: { require: ['clike'], load: () => import('prismjs/components/prism-ruby') },
+  perl: { load: () => import('prismjs/components/prism-perl') },
+  lua: { load: () => import('prismjs/components/prism-lua') },
+  r: { load: () => import('prismjs/components/prism-r') },
+  bash: { load: () => import('prismjs/components/prism-bash') },
+  powershell: { load: () => import('prismjs/components/prism-powershell') },
+  scss: { require: ['css'], load: () => import('prismjs/components/prism-scss') },
+  less: { require: ['css'], load: () => import('prismjs/components/prism-less') },
+  graphql: { load: () => import('prismjs/components/prism-graphql') },
+  yaml: { load: () => import('prismjs/components/prism-yaml') },
+  toml: { load: () => import('prismjs/components/prism-toml') },
+  ini: { load: () => import('prismjs/components/prism-ini') },
+  docker: { load: () => import('prismjs/components/prism-docker') },
+  makefile: { load: () => import('prismjs/components/prism-makefile') },
+  diff: { load: () => import('prismjs/components/prism-diff') }
+};
+
+// Prism 的语言别名，与各组件注册的别名保持一致
+const PRISM_ALIASES: Record<string, string> = {
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  mathml: 'markup',
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  md: 'markdown',
+  cs: 'csharp',
+  dotnet: 'csharp',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  objc: 'objectivec',
+  rb: 'ruby',
+  sh: 'bash',
+  shell: 'bash',
+  yml: 'yaml',
+  dockerfile: 'docker'
+};
+
+const loadingComponents = new Map<string, Promise<void>>();
+
+/**
+ * 将语言名或别名解析为 Prism 组件名，不支持时返回 null
+ */
+export const resolvePrismComponent = (name: string): string | null => {
+  const key = name.toLowerCase();
+  const component = PRISM_ALIASES[key] ?? key;
+  return CORE_COMPONENTS.has(component) || Object.prototype.hasOwnProperty.call(PRISM_COMPONENTS, component)
+    ? component
+    : null;
+};
+
+/**
+ * 获取已加载的语法，尚未加载或不支持时返回 undefined
+ */
+export const getLoadedGrammar = (name: string): Prism.Grammar | undefined => {
+  const component = resolvePrismComponent(name);
+  if (!component) return undefined;
+  return Prism.languages[component] as Prism.Grammar | undefined;
+};
+
+// 先加载依赖的组件，再加载组件本身；同一组件只加载一次，失败后允许重试
+const loadComponent = (component: string): Promise<void> => {
+  if (CORE_COMPONENTS.has(component)) return Promise.resolve();
+
+  let promise = loadingComponents.get(component);
+  if (!promise) {
+    const { require = [], load } = PRISM_COMPONENTS[component];
+    promise = Promise.all(require.map(loadComponent))
+      .then(() => load())
+      .then(() => undefined);
+    promise.catch(() => loadingComponents.delete(component));
+    loadingComponents.set(component, promise);
+  }
+  return promise;
+};
+
+/**
+ * 按需加载语法
+ * 返回加载后的语法，不支持的语言或加载失败时返回 undefined
+ */
+export const loadPrismGrammar = async (name: string): Promise<Prism.Grammar | undefined> => {
+  const component = resolvePrismComponent(name);
+  if (!component) return undefined;
+  try {
+    await loadComponent(component);
+  } catch (error) {
+    console.error(`加载 ${component} 语法失败:`, error);
+    return undefined;
+  }
+  return getLoadedGrammar(component);
+};
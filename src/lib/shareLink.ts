@@ -0,0 +1,119 @@
+import { DEFAULT_COMPARISON_OPTIONS, type ComparisonOptions } from './compareOptions';
+import { createHistoryId } from './history';
+import { createHistoryExport, parseOptions } from './historyFormat';
+import { isSupportedLanguage } from './languages';
+
+// 通过链接分享的对比内容
+export interface SharedComparison {
+  original: string;
+  modified: string;
+  language: string;
+  options: ComparisonOptions;
+  originalFileName?: string;
+  modifiedFileName?: string;
+}
+
+// 分享链接的路由，对比内容压缩后放在 URL 片段中，不会发送到服务器
+export const SHARE_ROUTE = '/compare';
+
+// 超过该长度的链接在聊天工具、邮件客户端中容易被截断
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+// 片段格式版本，格式变化时递增
+const SHARE_FORMAT_PREFIX = 'v1.';
+
+// 使用浏览器内置的压缩流压缩/解压数据
+const pipeBytes = async (data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// base64url 编码：不含 + / =，可以直接放在 URL 中
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// 校验解码后的数据，与导入历史记录使用相同的规则，缺失的对比选项使用默认值
+const toSharedComparison = (data: unknown): SharedComparison => {
+  const value = data as Partial<Record<keyof SharedComparison, unknown>> | null;
+  if (
+    !value || typeof value !== 'object' ||
+    typeof value.original !== 'string' ||
+    typeof value.modified !== 'string' ||
+    typeof value.language !== 'string'
+  ) {
+    throw new Error('分享内容格式不正确');
+  }
+  if (!isSupportedLanguage(value.language)) throw new Error(`不支持的语言：${value.language}`);
+  return {
+    original: value.original,
+    modified: value.modified,
+    language: value.language,
+    options: value.options === undefined ? { ...DEFAULT_COMPARISON_OPTIONS } : parseOptions(value.options),
+    originalFileName: typeof value.originalFileName === 'string' ? value.originalFileName : '',
+    modifiedFileName: typeof value.modifiedFileName === 'string' ? value.modifiedFileName : ''
+  };
+};
+
+/**
+ * 将对比内容编码为 URL 片段（不含 #）
+ */
+export const encodeShareFragment = async (comparison: SharedComparison): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(comparison));
+  return SHARE_FORMAT_PREFIX + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+/**
+ * 解码 URL 片段，格式不正确时抛出错误
+ */
+export const decodeShareFragment = async (fragment: string): Promise<SharedComparison> => {
+  const encoded = fragment.replace(/^#/, '');
+  if (!encoded.startsWith(SHARE_FORMAT_PREFIX)) throw new Error('不支持的分享链接版本');
+
+  let data: unknown;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(encoded.slice(SHARE_FORMAT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('分享链接已损坏，可能在复制时被截断');
+  }
+  return toSharedComparison(data);
+};
+
+/**
+ * 生成分享链接
+ * 链接超过长度限制时 url 为 null，应改为下载分享文件
+ */
+export const createShareUrl = async (
+  comparison: SharedComparison,
+  origin: string
+): Promise<{ url: string | null; length: number }> => {
+  const url = `${origin}${SHARE_ROUTE}#${await encodeShareFragment(comparison)}`;
+  return { url: url.length <= MAX_SHARE_URL_LENGTH ? url : null, length: url.length };
+};
+
+/**
+ * 生成分享文件内容
+ * 与历史记录的导出格式相同，接收方在历史记录面板中导入即可
+ */
+export const createShareFileContent = (comparison: SharedComparison): string => {
+  return createHistoryExport([{
+    id: createHistoryId(comparison.original, comparison.modified, comparison.language),
+    timestamp: Date.now(),
+    original: comparison.original,
+    modified: comparison.modified,
+    lang: comparison.language,
+    options: comparison.options
+  }]);
+};
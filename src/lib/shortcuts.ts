@@ -0,0 +1,54 @@
+// 快捷键动作
+export type ShortcutAction = 'nextHunk' | 'previousHunk';
+
+// 快捷键定义：按键组合写作 Alt+ArrowDown、Shift+F7 的形式，修饰键在前
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  keys: string[];
+  description: string;
+}
+
+// 全部快捷键集中在此定义，界面提示与按键处理共用
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'nextHunk', keys: ['Alt+ArrowDown', 'F7'], description: '下一处变更' },
+  { action: 'previousHunk', keys: ['Alt+ArrowUp', 'Shift+F7'], description: '上一处变更' }
+];
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+// 按键事件对应的按键组合
+const getEventCombo = (event: KeyboardEvent): string => {
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey
+  };
+  return [...MODIFIERS.filter(modifier => pressed[modifier]), event.key].join('+');
+};
+
+/**
+ * 查找按键事件对应的快捷键动作，没有匹配时返回 null
+ */
+export const matchShortcut = (event: KeyboardEvent): ShortcutAction | null => {
+  const combo = getEventCombo(event);
+  return SHORTCUTS.find(shortcut => shortcut.keys.includes(combo))?.action ?? null;
+};
+
+// 显示用的按键名称
+const KEY_LABELS: Record<string, string> = {
+  ArrowDown: '↓',
+  ArrowUp: '↑',
+  ArrowLeft: '←',
+  ArrowRight: '→'
+};
+
+/**
+ * 快捷键的提示文本，如“下一处变更 (Alt+↓ / F7)”
+ */
+export const formatShortcut = (action: ShortcutAction): string => {
+  const shortcut = SHORTCUTS.find(item => item.action === action);
+  if (!shortcut) return '';
+  const keys = shortcut.keys.map(combo => combo.split('+').map(key => KEY_LABELS[key] ?? key).join('+'));
+  return `${shortcut.description} (${keys.join(' / ')})`;
+};
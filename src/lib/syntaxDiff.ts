@@ -0,0 +1,336 @@
+import { computeLineMatches, type DiffType, type LineDiffResult } from './lineDiff';
+import { dropFormattingTokens, tokenizeJs, type JsToken } from './jsTokenizer';
+import { diffStructuredData, type DataChange } from './jsonDiff';
+
+// 支持语法感知对比的语言
+export type SyntaxLanguage = 'javascript' | 'typescript' | 'json';
+
+export const SYNTAX_LANGUAGES: SyntaxLanguage[] = ['javascript', 'typescript', 'json'];
+
+// 源码中的字符范围，结束位置不包含在内
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// 一处语义差异
+export interface SyntaxChange {
+  kind: 'added' | 'removed' | 'changed';
+  label: string; // JSON 为 JSON Pointer，JavaScript/TypeScript 为所在声明
+  originalRanges: TextRange[];
+  modifiedRanges: TextRange[];
+}
+
+// 顶层语句
+interface JsUnit {
+  name: string | null; // 具名声明的名称，匿名语句为 null
+  tokens: JsToken[]; // 已去掉格式相关的词法单元
+}
+
+// 这些修饰词不影响声明的名称
+const DECLARATION_MODIFIERS = new Set(['export', 'default', 'declare', 'async', 'abstract']);
+
+// 具名声明关键字
+const NAMED_DECLARATIONS = new Set(['function', 'class', 'interface', 'type', 'enum', 'namespace', 'module']);
+
+// 以代码块结束的语句，其后的 } 即为语句结尾
+const BLOCK_STATEMENTS = new Set([
+  'function', 'class', 'interface', 'enum', 'namespace', 'module',
+  'if', 'for', 'while', 'do', 'switch', 'try'
+]);
+
+// 出现在新行行首时开始新语句的关键字（用于没有分号的代码）
+const STATEMENT_STARTS = new Set([
+  'import', 'export', 'const', 'let', 'var', 'function', 'class', 'interface', 'type',
+  'enum', 'declare', 'abstract', 'namespace', 'async', 'if', 'for', 'while', 'switch',
+  'try', 'return', 'throw'
+]);
+
+// 块语句的 } 之后可以继续的关键字
+const BLOCK_CONTINUATIONS = new Set(['else', 'catch', 'finally']);
+
+export const isSyntaxLanguage = (language: string): language is SyntaxLanguage => {
+  return (SYNTAX_LANGUAGES as string[]).includes(language);
+};
+
+// 去掉修饰词后的第一个词法单元位置
+const skipModifiers = (tokens: JsToken[]): number => {
+  let index = 0;
+  while (index < tokens.length && DECLARATION_MODIFIERS.has(tokens[index].value)) index++;
+  return index;
+};
+
+// 推断顶层语句的名称
+const getUnitName = (tokens: JsToken[]): string | null => {
+  const index = skipModifiers(tokens);
+  const head = tokens[index];
+  if (!head) return null;
+
+  if (NAMED_DECLARATIONS.has(head.value)) {
+    let nameIndex = index + 1;
+    if (tokens[nameIndex]?.value === '*') nameIndex++; // function*
+    const name = tokens[nameIndex]?.type === 'word' ? tokens[nameIndex].value : '';
+    return `${head.value} ${name}`.trim();
+  }
+  if (['const', 'let', 'var'].includes(head.value)) {
+    const name = tokens[index + 1];
+    return name?.type === 'word' ? `${head.value} ${name.value}` : null;
+  }
+  if (head.value === 'import') {
+    const source = tokens.find(token => token.type === 'string');
+    return source ? `import ${source.key.slice(2)}` : null;
+  }
+  return null;
+};
+
+// 计算行首偏移
+const getLineStarts = (text: string): number[] => {
+  const starts = [0];
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') starts.push(index + 1);
+  }
+  return starts;
+};
+
+// 字符偏移所在的行
+const offsetToLine = (lineStarts: number[], offset: number): number => {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * 将词法单元切分为顶层语句
+ * 以顶层的分号、块语句的结束花括号，以及新行开头的声明关键字作为分界
+ */
+const splitJsUnits = (source: string, tokens: JsToken[]): JsUnit[] => {
+  const lineStarts = getLineStarts(source);
+  const units: JsUnit[] = [];
+  let current: JsToken[] = [];
+  let depth = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    units.push({ name: getUnitName(current), tokens: dropFormattingTokens(current) });
+    current = [];
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (
+      depth === 0 && current.length > 0 && previous &&
+      token.type === 'word' && STATEMENT_STARTS.has(token.value) &&
+      offsetToLine(lineStarts, token.start) > offsetToLine(lineStarts, previous.end)
+    ) {
+      flush();
+    }
+
+    current.push(token);
+    if (['{', '(', '['].includes(token.value)) depth++;
+    if (['}', ')', ']'].includes(token.value)) depth = Math.max(0, depth - 1);
+    if (depth > 0) return;
+
+    if (token.value === ';') {
+      flush();
+    } else if (token.value === '}') {
+      const head = current[skipModifiers(current)]?.value;
+      const next = tokens[index + 1]?.value;
+      if (BLOCK_STATEMENTS.has(head) && !BLOCK_CONTINUATIONS.has(next) && !(head === 'do' && next === 'while')) {
+        flush();
+      }
+    }
+  });
+  flush();
+
+  return units;
+};
+
+// 一组词法单元覆盖的范围
+const tokenRanges = (tokens: JsToken[]): TextRange[] => tokens.map(token => ({ start: token.start, end: token.end }));
+
+// 以词法单元为粒度比较两段代码，返回两侧发生变化的词法单元
+const diffTokens = (original: JsToken[], modified: JsToken[]): { removed: JsToken[]; added: JsToken[] } => {
+  const matches = computeLineMatches(original.map(token => token.key), modified.map(token => token.key));
+  const matched = new Set<number>();
+  matches.forEach(index => {
+    if (index >= 0) matched.add(index);
+  });
+  return {
+    removed: original.filter((_, index) => matches[index] < 0),
+    added: modified.filter((_, index) => !matched.has(index))
+  };
+};
+
+// 语句的简短描述，用于匿名语句
+const describeUnit = (unit: JsUnit): string => {
+  return unit.name ?? unit.tokens.slice(0, 6).map(token => token.value).join(' ');
+};
+
+/**
+ * JavaScript/TypeScript 的语义差异
+ * 顶层声明按名称匹配（与顺序无关），匿名语句按内容匹配；匹配的声明再逐个词法单元比较
+ */
+const computeJsChanges = (originalCode: string, modifiedCode: string): SyntaxChange[] => {
+  const originalUnits = splitJsUnits(originalCode, tokenizeJs(originalCode));
+  const modifiedUnits = splitJsUnits(modifiedCode, tokenizeJs(modifiedCode));
+  const contentKey = (unit: JsUnit) => unit.tokens.map(token => token.key).join('\u0001');
+  const unitKey = (unit: JsUnit) => (unit.name !== null ? `name:${unit.name}` : `content:${contentKey(unit)}`);
+
+  // 按键建立待匹配队列
+  const queues = new Map<string, number[]>();
+  modifiedUnits.forEach((unit, index) => {
+    const key = unitKey(unit);
+    queues.set(key, [...(queues.get(key) ?? []), index]);
+  });
+
+  const changes: SyntaxChange[] = [];
+  const matchedModified = new Set<number>();
+
+  originalUnits.forEach(unit => {
+    const queue = queues.get(unitKey(unit));
+    const modifiedIndex = queue?.shift();
+    if (modifiedIndex === undefined) {
+      changes.push({ kind: 'removed', label: describeUnit(unit), originalRanges: tokenRanges(unit.tokens), modifiedRanges: [] });
+      return;
+    }
+
+    matchedModified.add(modifiedIndex);
+    const counterpart = modifiedUnits[modifiedIndex];
+    if (unit.name === null || contentKey(unit) === contentKey(counterpart)) return;
+
+    const { removed, added } = diffTokens(unit.tokens, counterpart.tokens);
+    changes.push({
+      kind: 'changed',
+      label: describeUnit(unit),
+      originalRanges: tokenRanges(removed),
+      modifiedRanges: tokenRanges(added)
+    });
+  });
+
+  modifiedUnits.forEach((unit, index) => {
+    if (matchedModified.has(index)) return;
+    changes.push({ kind: 'added', label: describeUnit(unit), originalRanges: [], modifiedRanges: tokenRanges(unit.tokens) });
+  });
+
+  return changes;
+};
+
+// 结构化数据差异转换为语义差异
+const toSyntaxChange = (change: DataChange): SyntaxChange => ({
+  kind: change.op === 'add' ? 'added' : change.op === 'remove' ? 'removed' : 'changed',
+  label: change.path || '/',
+  originalRanges: change.originalRange ? [change.originalRange] : [],
+  modifiedRanges: change.modifiedRange ? [change.modifiedRange] : []
+});
+
+/**
+ * 计算两段代码的语义差异
+ * 代码无法解析时返回 null，由调用方退回普通的行对比
+ */
+export const computeSyntaxChanges = (
+  originalCode: string,
+  modifiedCode: string,
+  language: SyntaxLanguage
+): SyntaxChange[] | null => {
+  try {
+    if (language === 'json') {
+      // 空文本视为空文档
+      if (!originalCode.trim() || !modifiedCode.trim()) return null;
+      return diffStructuredData('json', originalCode, modifiedCode).map(toSyntaxChange);
+    }
+    return computeJsChanges(originalCode, modifiedCode);
+  } catch (error) {
+    console.warn('Syntax-aware diff unavailable, falling back to line diff:', error);
+    return null;
+  }
+};
+
+// 把字符范围拆分到各行，得到每行内变化的列范围
+const rangesByLine = (text: string, ranges: TextRange[]): Map<number, [number, number][]> => {
+  const lineStarts = getLineStarts(text);
+  const result = new Map<number, [number, number][]>();
+
+  ranges.forEach(({ start, end }) => {
+    const firstLine = offsetToLine(lineStarts, start);
+    const lastLine = offsetToLine(lineStarts, Math.max(start, end - 1));
+    for (let line = firstLine; line <= lastLine; line++) {
+      const lineStart = lineStarts[line];
+      const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : text.length;
+      const from = Math.max(start, lineStart) - lineStart;
+      const to = Math.min(end, lineEnd) - lineStart;
+      if (to <= from) continue;
+
+      const list = result.get(line) ?? [];
+      const last = list[list.length - 1];
+      // 同一行内相邻的范围连同中间的空白合并
+      if (last && /^\s*$/.test(text.slice(lineStart + last[1], lineStart + from))) {
+        last[1] = Math.max(last[1], to);
+      } else {
+        list.push([from, to]);
+      }
+      result.set(line, list);
+    }
+  });
+
+  result.forEach(list => list.sort((a, b) => a[0] - b[0]));
+  return result;
+};
+
+// 只有一侧内容的行按所在一侧区分为插入或删除
+const oneSidedType = (row: LineDiffResult): DiffType => (row.originalIndex === undefined ? 'insert' : 'delete');
+
+/**
+ * 用语义差异修正行对齐结果
+ * 不包含语义变化的行（包括换行、排序等格式调整产生的插入与删除行）改为相等，只有一侧内容时另一侧仍为填充行；
+ * 移动行只在两端都不包含语义变化时一起改为相等，包含变化的行记录变化的列范围
+ */
+export const applySyntaxDiff = (
+  rows: LineDiffResult[],
+  originalCode: string,
+  modifiedCode: string,
+  language: SyntaxLanguage
+): LineDiffResult[] => {
+  const changes = computeSyntaxChanges(originalCode, modifiedCode, language);
+  if (!changes) return rows;
+
+  const originalLines = rangesByLine(originalCode, changes.flatMap(change => change.originalRanges));
+  const modifiedLines = rangesByLine(modifiedCode, changes.flatMap(change => change.modifiedRanges));
+  const rowRanges = rows.map(row => ({
+    original: row.originalIndex !== undefined ? originalLines.get(row.originalIndex) : undefined,
+    modified: row.modifiedIndex !== undefined ? modifiedLines.get(row.modifiedIndex) : undefined
+  }));
+  const isUnchanged = (row: number) => !rowRanges[row].original && !rowRanges[row].modified;
+
+  return rows.map((row, index) => {
+    const { original, modified } = rowRanges[index];
+
+    if (isUnchanged(index) && (!row.move || isUnchanged(row.move.counterpartRow))) {
+      return {
+        type: 'equal',
+        originalLine: row.originalLine,
+        modifiedLine: row.modifiedLine,
+        originalIndex: row.originalIndex,
+        modifiedIndex: row.modifiedIndex
+      };
+    }
+
+    let type = row.type;
+    if (type === 'equal') {
+      type = row.originalIndex !== undefined && row.modifiedIndex !== undefined ? 'modify' : oneSidedType(row);
+    }
+    return {
+      ...row,
+      type,
+      originalRanges: row.originalIndex !== undefined ? original ?? [] : undefined,
+      modifiedRanges: row.modifiedIndex !== undefined ? modified ?? [] : undefined
+    };
+  });
+};
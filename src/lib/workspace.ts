@@ -0,0 +1,86 @@
+import type { ComparisonOptions } from './compareOptions';
+import type { DiffSide } from './diffModel';
+import { NO_CURRENT_ROW } from './hunks';
+
+// 视图模式：并排对比或单栏统一视图
+export type ViewMode = 'split' | 'unified';
+
+// 工作区中需要随内容一起恢复的对比状态
+export interface WorkspaceSession {
+  originalCode: string;
+  modifiedCode: string;
+  originalFileName: string;
+  modifiedFileName: string;
+  baseCode: string;
+  isMergeMode: boolean;
+  selectedLanguage: string;
+  languagePinned: boolean;
+  comparisonOptions: ComparisonOptions;
+  viewMode: ViewMode;
+  autoCompare: boolean;
+}
+
+// 编辑器的视图位置：滚动位置以折叠后的对齐行为单位，光标为两侧代码中的字符偏移
+export interface WorkspaceView {
+  scrollTop: number;
+  scrollLeft: number;
+  currentRow: number;
+  cursors: Record<DiffSide, number>;
+}
+
+// 保存在 IndexedDB 中的工作区，视图位置与内容分开存储，只有视图位置变化时不必重写两侧代码
+export interface Workspace extends WorkspaceSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  view: WorkspaceView;
+}
+
+// 标签栏使用的工作区信息，完整内容只在切换时从 IndexedDB 读取
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'createdAt'>;
+
+export const EMPTY_WORKSPACE_VIEW: WorkspaceView = {
+  scrollTop: 0,
+  scrollLeft: 0,
+  currentRow: NO_CURRENT_ROW,
+  cursors: { original: 0, modified: 0 }
+};
+
+// 当前工作区有改动时的保存间隔，意外关闭或崩溃时最多丢失这段时间内的编辑；只有视图位置变化时只写入视图位置
+export const WORKSPACE_SAVE_INTERVAL_MS = 2000;
+
+// 从 store 状态或工作区中取出会话字段，WorkspaceSession 新增字段时需在此补充
+export const getWorkspaceSession = (source: WorkspaceSession): WorkspaceSession => ({
+  originalCode: source.originalCode,
+  modifiedCode: source.modifiedCode,
+  originalFileName: source.originalFileName,
+  modifiedFileName: source.modifiedFileName,
+  baseCode: source.baseCode,
+  isMergeMode: source.isMergeMode,
+  selectedLanguage: source.selectedLanguage,
+  languagePinned: source.languagePinned,
+  comparisonOptions: source.comparisonOptions,
+  viewMode: source.viewMode,
+  autoCompare: source.autoCompare
+});
+
+// 会话是否未变化，store 中的状态只会整体替换，按引用比较即可
+export const isSameSession = (a: WorkspaceSession, b: WorkspaceSession): boolean => {
+  const session = getWorkspaceSession(a);
+  return (Object.keys(session) as (keyof WorkspaceSession)[]).every(field => session[field] === b[field]);
+};
+
+export const createWorkspaceId = (): string => {
+  return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+// 新工作区的默认名称，使用未被占用的最小序号
+export const getDefaultWorkspaceName = (workspaces: WorkspaceSummary[]): string => {
+  const names = new Set(workspaces.map(workspace => workspace.name));
+  let index = 1;
+  while (names.has(`工作区 ${index}`)) index++;
+  return `工作区 ${index}`;
+};
+
+export const toWorkspaceSummary = ({ id, name, createdAt }: Workspace): WorkspaceSummary => ({ id, name, createdAt });
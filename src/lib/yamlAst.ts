@@ -0,0 +1,556 @@
+import type { JsonNode, JsonProperty } from './jsonAst';
+
+// YAML 解析错误，offset 为出错位置
+export class YamlParseError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'YamlParseError';
+    this.offset = offset;
+  }
+}
+
+// 双引号字符串中的转义字符
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029'
+};
+
+// \x、\u、\U 后的十六进制位数
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+// 不能作为普通标量开头的字符
+const INDICATOR_CHARS = new Set(['[', ']', '{', '}', ',', '#', '&', '*', '!', '|', '>', "'", '"', '%', '@', '`']);
+
+// 流式集合中结束普通标量的字符
+const FLOW_INDICATORS = new Set([',', '[', ']', '{', '}']);
+
+// 按 YAML 1.2 核心模式推断普通标量的类型
+const NULL_PATTERN = /^(~|null|Null|NULL)$/;
+const TRUE_PATTERN = /^(true|True|TRUE)$/;
+const FALSE_PATTERN = /^(false|False|FALSE)$/;
+const INT_PATTERN = /^[-+]?\d+$/;
+const OCTAL_PATTERN = /^0o[0-7]+$/;
+const HEX_PATTERN = /^0x[\da-fA-F]+$/;
+const FLOAT_PATTERN = /^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/;
+const SPECIAL_FLOAT_PATTERN = /^([-+]?\.(inf|Inf|INF)|\.(nan|NaN|NAN))$/;
+
+/**
+ * 解析 YAML 文本并保留每个节点的位置，结果与 JSON 语法树相同，可直接进行结构化对比
+ * 支持块映射与块序列、流式集合、引号与普通标量、字面与折叠块标量；
+ * 锚点、别名、标签、复杂键与多文档无法用 JSON 表示或很少用于配置文件，遇到时抛出 YamlParseError
+ */
+export const parseYamlWithLocations = (text: string): JsonNode => {
+  let index = text.startsWith('\uFEFF') ? 1 : 0;
+
+  const fail = (message: string, offset = index): never => {
+    const line = text.slice(0, offset).split('\n').length;
+    throw new YamlParseError(`${message}（第 ${line} 行）`, offset);
+  };
+
+  const isLineEnd = (position: number) => position >= text.length || text[position] === '\n' || text[position] === '\r';
+  const isSpace = (position: number) => text[position] === ' ' || text[position] === '\t';
+  const isSpaceOrEnd = (position: number) => isSpace(position) || isLineEnd(position);
+  const columnAt = (position: number) => position - (text.lastIndexOf('\n', position - 1) + 1);
+
+  const skipSpace = () => {
+    while (isSpace(index)) index++;
+  };
+
+  const skipLineBreak = () => {
+    if (text[index] === '\r') index++;
+    if (text[index] === '\n') index++;
+  };
+
+  // 行首的 ---/... 标记
+  const isDocumentMarker = (position: number, marker: '---' | '...') => {
+    return columnAt(position) === 0 && text.startsWith(marker, position) && isSpaceOrEnd(position + 3);
+  };
+
+  const isSequenceEntry = (position: number) => text[position] === '-' && isSpaceOrEnd(position + 1);
+
+  const atBlockEnd = () => index >= text.length || isDocumentMarker(index, '---') || isDocumentMarker(index, '...');
+
+  // 跳过空白、注释与空行，停在下一行内容的第一个字符上
+  const skipBlank = () => {
+    for (;;) {
+      const lineStart = columnAt(index) === 0;
+      skipSpace();
+      if (text[index] === '#') {
+        while (!isLineEnd(index)) index++;
+      }
+      if (index >= text.length) return;
+      if (!isLineEnd(index)) {
+        if (lineStart && text.slice(index - columnAt(index), index).includes('\t')) fail('缩进中不能使用制表符');
+        return;
+      }
+      skipLineBreak();
+    }
+  };
+
+  // 值之后只能是空白或注释
+  const expectLineEnd = () => {
+    skipSpace();
+    if (text[index] !== '#' && !isLineEnd(index)) fail('同一行中存在多余内容');
+  };
+
+  const nullNode = (position: number): JsonNode => ({ type: 'null', start: position, end: position, value: null });
+
+  const resolvePlain = (value: string, start: number, end: number): JsonNode => {
+    if (NULL_PATTERN.test(value)) return { type: 'null', start, end, value: null };
+    if (TRUE_PATTERN.test(value) || FALSE_PATTERN.test(value)) return { type: 'boolean', start, end, value: TRUE_PATTERN.test(value) };
+    if (INT_PATTERN.test(value) || FLOAT_PATTERN.test(value)) return { type: 'number', start, end, value: Number(value) };
+    if (OCTAL_PATTERN.test(value)) return { type: 'number', start, end, value: parseInt(value.slice(2), 8) };
+    if (HEX_PATTERN.test(value)) return { type: 'number', start, end, value: parseInt(value.slice(2), 16) };
+    if (SPECIAL_FLOAT_PATTERN.test(value)) fail(`无法表示为 JSON 的数值 ${value}`, start);
+    return { type: 'string', start, end, value };
+  };
+
+  // 锚点、别名、标签等不支持的节点属性
+  const rejectUnsupported = () => {
+    const char = text[index];
+    if (char === '&' || char === '*') fail('不支持锚点与别名');
+    if (char === '!') fail('不支持标签');
+    if (char === '?' && isSpaceOrEnd(index + 1)) fail('不支持复杂键');
+    if (char === '%' || char === '@' || char === '`') fail(`意外的字符 "${char}"`);
+  };
+
+  // 引号字符串，可以跨行，换行按 YAML 规则折叠为空格
+  const parseQuoted = (): string => {
+    const quote = text[index];
+    index++;
+    let result = '';
+    for (;;) {
+      if (index >= text.length) fail('字符串缺少结束引号');
+      const char = text[index];
+
+      if (char === quote) {
+        if (quote === "'" && text[index + 1] === "'") {
+          result += "'";
+          index += 2;
+          continue;
+        }
+        index++;
+        return result;
+      }
+
+      if (char === '\\' && quote === '"') {
+        const escape = text[index + 1];
+        if (escape === '\n' || escape === '\r') {
+          // 行尾的反斜杠连接下一行，不插入空格
+          index++;
+          skipLineBreak();
+          skipSpace();
+        } else if (escape in HEX_ESCAPE_LENGTHS) {
+          const hex = text.slice(index + 2, index + 2 + HEX_ESCAPE_LENGTHS[escape]);
+          if (!/^[\da-fA-F]+$/.test(hex) || hex.length !== HEX_ESCAPE_LENGTHS[escape]) fail('无效的 Unicode 转义');
+          result += String.fromCodePoint(parseInt(hex, 16));
+          index += 2 + hex.length;
+        } else if (escape in ESCAPES) {
+          result += ESCAPES[escape];
+          index += 2;
+        } else {
+          fail('无效的转义字符');
+        }
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        // 单个换行折叠为空格，空行保留为换行
+        result = result.replace(/[ \t]+$/, '');
+        skipLineBreak();
+        let breaks = 0;
+        for (;;) {
+          skipSpace();
+          if (index >= text.length || (text[index] !== '\n' && text[index] !== '\r')) break;
+          skipLineBreak();
+          breaks++;
+        }
+        result += breaks > 0 ? '\n'.repeat(breaks) : ' ';
+        continue;
+      }
+
+      result += char;
+      index++;
+    }
+  };
+
+  // 读取一行中的普通标量，遇到行尾或注释结束；flow 为 true 时在流式集合的分隔符处结束
+  const readPlain = (flow: boolean): { value: string; end: number } => {
+    const start = index;
+    while (!isLineEnd(index)) {
+      const char = text[index];
+      if (char === '#' && index > start && isSpace(index - 1)) break;
+      if (char === ':' && (isSpaceOrEnd(index + 1) || (flow && FLOW_INDICATORS.has(text[index + 1])))) {
+        if (flow) break;
+        fail('映射的值不能与键写在同一行中');
+      }
+      if (flow && FLOW_INDICATORS.has(char)) break;
+      index++;
+    }
+    const value = text.slice(start, index).replace(/[ \t]+$/, '');
+    return { value, end: start + value.length };
+  };
+
+  // 行首的映射键，返回冒号的位置，不是映射键时返回 -1
+  const findMappingColon = (position: number): number => {
+    const char = text[position];
+    let scan = position;
+    if (char === '"' || char === "'") {
+      scan++;
+      while (!isLineEnd(scan)) {
+        if (char === '"' && text[scan] === '\\') {
+          scan += 2;
+        } else if (text[scan] === char && !(char === "'" && text[scan + 1] === "'")) {
+          break;
+        } else {
+          scan += text[scan] === char ? 2 : 1;
+        }
+      }
+      if (text[scan] !== char) return -1;
+      scan++;
+      while (isSpace(scan)) scan++;
+      return text[scan] === ':' && isSpaceOrEnd(scan + 1) ? scan : -1;
+    }
+    if (INDICATOR_CHARS.has(char) || isSequenceEntry(position)) return -1;
+    for (; !isLineEnd(scan); scan++) {
+      if (text[scan] === ':' && isSpaceOrEnd(scan + 1)) return scan;
+      if (text[scan] === '#' && isSpace(scan - 1)) return -1;
+    }
+    return -1;
+  };
+
+  // 普通标量，后续缩进更深的行属于同一标量
+  const parsePlainBlock = (parentIndent: number): JsonNode => {
+    const start = index;
+    const first = readPlain(false);
+    let value = first.value;
+    let end = first.end;
+
+    for (;;) {
+      const lineEnd = index;
+      skipSpace();
+      if (text[index] === '#' || index >= text.length) break;
+      let breaks = 0;
+      while (index < text.length && isLineEnd(index)) {
+        skipLineBreak();
+        breaks++;
+        skipSpace();
+      }
+      if (
+        index >= text.length || text[index] === '#' || columnAt(index) <= parentIndent ||
+        isDocumentMarker(index, '---') || isDocumentMarker(index, '...')
+      ) {
+        index = lineEnd;
+        break;
+      }
+      if (findMappingColon(index) >= 0) fail('缩进不正确');
+      const next = readPlain(false);
+      value += (breaks === 1 ? ' ' : '\n'.repeat(breaks - 1)) + next.value;
+      end = next.end;
+    }
+
+    index = end;
+    return resolvePlain(value, start, end);
+  };
+
+  // | 字面块标量与 > 折叠块标量
+  const parseBlockScalar = (parentIndent: number): JsonNode => {
+    const start = index;
+    const folded = text[index] === '>';
+    index++;
+
+    let chomping: 'clip' | 'strip' | 'keep' = 'clip';
+    let explicitIndent = 0;
+    for (let count = 0; count < 2; count++) {
+      const char = text[index];
+      if ((char === '-' || char === '+') && chomping === 'clip') {
+        chomping = char === '-' ? 'strip' : 'keep';
+      } else if (/[1-9]/.test(char) && !explicitIndent) {
+        explicitIndent = Number(char);
+      } else {
+        break;
+      }
+      index++;
+    }
+    expectLineEnd();
+    while (!isLineEnd(index)) index++;
+
+    let end = index;
+    let contentIndent = explicitIndent ? Math.max(parentIndent, 0) + explicitIndent : -1;
+    let result = '';
+    let emptyLines = 0;
+    let didReadContent = false;
+    let atMoreIndented = false;
+
+    while (index < text.length) {
+      const lineStart = index;
+      skipLineBreak();
+      if (index >= text.length) break;
+      let indent = 0;
+      while (text[index] === ' ' && (contentIndent < 0 || indent < contentIndent)) {
+        index++;
+        indent++;
+      }
+      let lineEnd = index;
+      while (!isLineEnd(lineEnd)) lineEnd++;
+      const line = text.slice(index, lineEnd);
+
+      if (!line.trim() && (contentIndent < 0 || indent < contentIndent || !line)) {
+        emptyLines++;
+        index = lineEnd;
+        continue;
+      }
+      if (contentIndent < 0) {
+        if (indent <= parentIndent) {
+          index = lineStart;
+          break;
+        }
+        contentIndent = indent;
+      } else if (indent < contentIndent) {
+        index = lineStart;
+        break;
+      }
+
+      if (folded) {
+        if (isSpace(index)) {
+          atMoreIndented = true;
+          result += '\n'.repeat(didReadContent ? 1 + emptyLines : emptyLines);
+        } else if (atMoreIndented) {
+          atMoreIndented = false;
+          result += '\n'.repeat(emptyLines + 1);
+        } else if (emptyLines === 0) {
+          if (didReadContent) result += ' ';
+        } else {
+          result += '\n'.repeat(emptyLines);
+        }
+      } else {
+        result += '\n'.repeat(didReadContent ? 1 + emptyLines : emptyLines);
+      }
+      result += line;
+      didReadContent = true;
+      emptyLines = 0;
+      index = lineEnd;
+      end = lineEnd;
+    }
+
+    if (chomping === 'keep') {
+      result += '\n'.repeat(didReadContent ? 1 + emptyLines : emptyLines);
+    } else if (chomping === 'clip' && didReadContent) {
+      result += '\n';
+    }
+    index = Math.max(index, end);
+    return { type: 'string', start, end, value: result };
+  };
+
+  // 流式集合 [...] 与 {...}，可以跨行
+  const skipFlowBlank = () => {
+    for (;;) {
+      skipSpace();
+      if (text[index] === '#') {
+        while (!isLineEnd(index)) index++;
+      }
+      if (index >= text.length || !isLineEnd(index)) return;
+      skipLineBreak();
+    }
+  };
+
+  const parseFlowNode = (): JsonNode => {
+    skipFlowBlank();
+    const start = index;
+    const char = text[index];
+    rejectUnsupported();
+
+    if (char === '[') {
+      index++;
+      const items: JsonNode[] = [];
+      for (;;) {
+        skipFlowBlank();
+        if (text[index] === ']') break;
+        items.push(parseFlowNode());
+        skipFlowBlank();
+        if (text[index] === ':') fail('不支持流式序列中的键值对');
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] !== ']') fail(index >= text.length ? '意外的文件结尾' : '缺少 "," 或 "]"');
+      }
+      index++;
+      return { type: 'array', start, end: index, items };
+    }
+
+    if (char === '{') {
+      index++;
+      const properties: JsonProperty[] = [];
+      for (;;) {
+        skipFlowBlank();
+        if (text[index] === '}') break;
+        const propertyStart = index;
+        rejectUnsupported();
+        let key: string;
+        if (text[index] === '"' || text[index] === "'") {
+          key = parseQuoted();
+        } else {
+          if (FLOW_INDICATORS.has(text[index]) || index >= text.length) fail('缺少键');
+          key = readPlain(true).value;
+        }
+        skipFlowBlank();
+        let value = nullNode(index);
+        if (text[index] === ':') {
+          index++;
+          skipFlowBlank();
+          value = text[index] === ',' || text[index] === '}' ? nullNode(index) : parseFlowNode();
+        }
+        properties.push({ key, start: propertyStart, end: Math.max(value.end, propertyStart + 1), value });
+        skipFlowBlank();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] !== '}') fail(index >= text.length ? '意外的文件结尾' : '缺少 "," 或 "}"');
+      }
+      index++;
+      return { type: 'object', start, end: index, properties };
+    }
+
+    if (char === '"' || char === "'") {
+      const value = parseQuoted();
+      return { type: 'string', start, end: index, value };
+    }
+
+    if (index >= text.length || FLOW_INDICATORS.has(char)) fail(index >= text.length ? '意外的文件结尾' : `意外的字符 "${char}"`);
+    const { value, end } = readPlain(true);
+    return resolvePlain(value, start, end);
+  };
+
+  // 与键或序列标记位于同一行的值
+  const parseInlineValue = (parentIndent: number): JsonNode => {
+    const start = index;
+    const char = text[index];
+    rejectUnsupported();
+    if (isSequenceEntry(index)) fail('序列不能与键写在同一行中');
+
+    if (char === '|' || char === '>') return parseBlockScalar(parentIndent);
+
+    let node: JsonNode;
+    if (char === '[' || char === '{') {
+      node = parseFlowNode();
+    } else if (char === '"' || char === "'") {
+      const value = parseQuoted();
+      node = { type: 'string', start, end: index, value };
+    } else {
+      node = parsePlainBlock(parentIndent);
+    }
+    expectLineEnd();
+    return node;
+  };
+
+  // 映射的冒号或序列的 - 之后的值：同一行的值，或下一行缩进更深的块
+  const parseIndicatorValue = (indent: number, context: 'mapping' | 'sequence'): JsonNode => {
+    const indicatorEnd = index;
+    skipSpace();
+    if (text[index] !== '#' && !isLineEnd(index)) {
+      const column = columnAt(index);
+      if (context === 'sequence' && isSequenceEntry(index)) return parseBlockSequence(column);
+      if (context === 'sequence' && findMappingColon(index) >= 0) return parseBlockMapping(column);
+      return parseInlineValue(indent);
+    }
+
+    skipBlank();
+    if (!atBlockEnd()) {
+      const column = columnAt(index);
+      if (column > indent) return parseBlockNode(indent);
+      // 映射的值可以是与键缩进相同的序列
+      if (context === 'mapping' && column === indent && isSequenceEntry(index)) return parseBlockSequence(indent);
+    }
+    return nullNode(indicatorEnd);
+  };
+
+  const parseBlockMapping = (indent: number): JsonNode => {
+    const start = index;
+    const properties: JsonProperty[] = [];
+
+    for (;;) {
+      const propertyStart = index;
+      rejectUnsupported();
+      const colon = findMappingColon(index);
+      if (colon < 0) fail('缺少 ":"');
+      const key = text[index] === '"' || text[index] === "'" ? parseQuoted() : text.slice(index, colon).replace(/[ \t]+$/, '');
+      index = colon + 1;
+
+      const value = parseIndicatorValue(indent, 'mapping');
+      properties.push({ key, start: propertyStart, end: Math.max(value.end, colon + 1), value });
+
+      skipBlank();
+      if (atBlockEnd() || columnAt(index) < indent) break;
+      if (columnAt(index) > indent || isSequenceEntry(index)) fail('缩进不正确');
+    }
+
+    return { type: 'object', start, end: properties[properties.length - 1].end, properties };
+  };
+
+  const parseBlockSequence = (indent: number): JsonNode => {
+    const start = index;
+    const items: JsonNode[] = [];
+
+    for (;;) {
+      index++; // -
+      items.push(parseIndicatorValue(indent, 'sequence'));
+
+      skipBlank();
+      if (atBlockEnd() || columnAt(index) < indent) break;
+      if (columnAt(index) > indent) fail('缩进不正确');
+      if (!isSequenceEntry(index)) break; // 回到与序列缩进相同的上层映射
+    }
+
+    return { type: 'array', start, end: items[items.length - 1].end, items };
+  };
+
+  // 当前位置开始的块节点，缩进必须大于 parentIndent
+  const parseBlockNode = (parentIndent: number): JsonNode => {
+    skipBlank();
+    if (atBlockEnd() || columnAt(index) <= parentIndent) return nullNode(index);
+    const column = columnAt(index);
+    if (isSequenceEntry(index)) return parseBlockSequence(column);
+    if (findMappingColon(index) >= 0) return parseBlockMapping(column);
+    return parseInlineValue(parentIndent);
+  };
+
+  skipBlank();
+  if (text[index] === '%') fail('不支持 YAML 指令');
+  let root: JsonNode;
+  if (isDocumentMarker(index, '---')) {
+    index += 3;
+    skipSpace();
+    root = text[index] === '#' || isLineEnd(index) ? parseBlockNode(-1) : parseInlineValue(-1);
+  } else {
+    root = parseBlockNode(-1);
+  }
+
+  skipBlank();
+  if (isDocumentMarker(index, '...')) {
+    index += 3;
+    skipBlank();
+  }
+  if (isDocumentMarker(index, '---')) fail('不支持包含多个文档的 YAML');
+  if (index < text.length) fail('缩进不正确或存在多余内容');
+  return root;
+};
@@ -0,0 +1,75 @@
+// ZIP 压缩包中的一个文件
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// 压缩方式：仅支持存储与 Deflate
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// 使用浏览器内置的解压流解压 Deflate 数据
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// 从文件末尾向前查找中央目录结束记录（其后最多跟 65535 字节的注释）
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('不是有效的 ZIP 文件');
+};
+
+/**
+ * 读取 ZIP 压缩包中的全部文件
+ * 按中央目录读取，跳过目录项；不支持 ZIP64 与加密的压缩包
+ */
+export const readZip = async (buffer: ArrayBuffer): Promise<ZipEntry[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) throw new Error('暂不支持 ZIP64 格式的压缩包');
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('ZIP 中央目录已损坏');
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 1) throw new Error('暂不支持加密的压缩包');
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`ZIP 文件头已损坏: ${path}`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ path, data: compressed });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ path, data: await inflateRaw(compressed) });
+    } else {
+      throw new Error(`不支持的压缩方式 (${method}): ${path}`);
+    }
+  }
+
+  return entries;
+};
@@ -1,12 +1,49 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Copy, Download, Upload, History, Settings, GitCompare, Trash2, Moon, Sun, Code } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Copy, Download, Upload, History, Settings, GitCompare, Trash2, Moon, Sun, Code, FileDiff, FileUp, GitMerge, Columns2, Rows2, FoldVertical, Braces, ListTree, FolderTree, Share2, FileText, BookmarkPlus } from 'lucide-react';
 import CodeEditor from '../components/CodeEditor';
 import DiffNavigator from '../components/DiffNavigator';
 import DiffProgressBar from '../components/DiffProgressBar';
 import HistoryPanel from '../components/HistoryPanel';
 import SettingsPanel from '../components/SettingsPanel';
+import PatchExportPanel from '../components/PatchExportPanel';
+import PatchImportPanel from '../components/PatchImportPanel';
+import MergePanel from '../components/MergePanel';
+import UnifiedDiffView from '../components/UnifiedDiffView';
+import DataDiffPanel from '../components/DataDiffPanel';
+import DirectoryComparePanel from '../components/DirectoryComparePanel';
+import DiffStatsPanel from '../components/DiffStatsPanel';
+import SharePanel from '../components/SharePanel';
+import WorkspaceTabs from '../components/WorkspaceTabs';
 import { useCodeStore } from '../store/useCodeStore';
 import { useDebounce } from '../hooks/useDebounce';
+import { useShortcuts } from '../hooks/useShortcuts';
+import { downloadFile } from '../lib/utils';
+import { parsePatch, reconstructFromPatch, type PatchFile } from '../lib/patch';
+import { findHunkAtRow, findNextHunk, findPreviousHunk, NO_CURRENT_ROW, type DiffHunk } from '../lib/hunks';
+import {
+  computeFolds,
+  expandFold,
+  getCenteredScrollTop,
+  rowRangeToDisplayRange,
+  type FoldExpandDirection,
+  type FoldExpansion,
+  type FoldRange,
+  type NavigationTarget
+} from '../lib/folding';
+import { isSyntaxLanguage } from '../lib/syntaxDiff';
+import { diffStructuredData, isStructuredDataLanguage, type DataChange } from '../lib/jsonDiff';
+import { lineToRow, type DiffSide } from '../lib/diffModel';
+import { SHARE_ROUTE, decodeShareFragment, type SharedComparison } from '../lib/shareLink';
+import { createHtmlReport } from '../lib/htmlReport';
+import { computeDiffStats } from '../lib/diffStats';
+import {
+  AUTO_DETECT_LANGUAGE,
+  IMPORT_ACCEPT,
+  LANGUAGES,
+  getLanguageExtension,
+  getLanguageLabel
+} from '../lib/languages';
 
 /**
  * 主页组件 - 码上找茬
@@ -17,44 +54,235 @@ export default function Home() {
   const {
     originalCode,
     modifiedCode,
-    diffLines,
+    originalFileName,
+    modifiedFileName,
+    diffModel,
+    mergeUndoStack,
+    mergeRedoStack,
+    baseCode,
+    isMergeMode,
+    mergeRegions,
+    conflictResolutions,
     history,
+    historyRetention,
+    directorySources,
+    activeFilePath,
+    workspaces,
+    activeWorkspaceId,
+    restoredView,
+    autoCompare,
     isComparing,
+    compareProgress,
+    diffAlgorithm,
+    detectMoves,
+    comparisonOptions,
+    viewMode,
+    collapseUnchanged,
+    contextLines,
+    syntaxDiffLanguages,
+    normalizeBeforeDiff,
+    tabWidth,
     selectedLanguage,
+    languagePinned,
+    detectedLanguages,
     isDarkMode,
     setOriginalCode,
     setModifiedCode,
+    setOriginalFileName,
+    setModifiedFileName,
     compareCode,
     clearCode,
+    applyHunk,
+    undoMerge,
+    redoMerge,
+    setBaseCode,
+    setMergeMode,
+    computeMerge,
+    resolveConflict,
+    getMergedCode,
+    loadConflictText,
+    setDirectorySource,
+    openFileComparison,
     saveToHistory,
+    saveSnapshot,
     loadFromHistory,
+    compareHistoryVersions,
+    updateHistoryRecord,
+    deleteHistoryRecord,
     clearHistory,
     exportHistory,
     importHistory,
+    setHistoryRetention,
+    loadSharedComparison,
+    createWorkspace,
+    switchWorkspace,
+    renameWorkspace,
+    closeWorkspace,
+    setWorkspaceView,
+    setWorkspaceCursor,
+    setAutoCompare,
     setLanguage,
+    unpinLanguage,
+    detectLanguages,
+    setDiffAlgorithm,
+    setDetectMoves,
+    setComparisonOptions,
+    setViewMode,
+    setCollapseUnchanged,
+    setContextLines,
+    setSyntaxDiff,
+    setNormalizeBeforeDiff,
+    setTabWidth,
     toggleTheme
   } = useCodeStore();
   
   // 本地状态
   const [showHistory, setShowHistory] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [currentLine, setCurrentLine] = useState(0);
+  const [showPatchExport, setShowPatchExport] = useState(false);
+  const [patchFiles, setPatchFiles] = useState<PatchFile[]>([]);
+  const [currentRow, setCurrentRow] = useState(NO_CURRENT_ROW);
+  const [navigationTarget, setNavigationTarget] = useState<NavigationTarget>();
+  const editorViewportRef = useRef<HTMLDivElement>(null);
   const [leftScrollTop, setLeftScrollTop] = useState(0);
   const [leftScrollLeft, setLeftScrollLeft] = useState(0);
   const [rightScrollTop, setRightScrollTop] = useState(0);
   const [rightScrollLeft, setRightScrollLeft] = useState(0);
-  const [autoCompare, setAutoCompare] = useState(true);
+  const [foldExpansions, setFoldExpansions] = useState<Record<number, FoldExpansion>>({});
+  const [showDataDiff, setShowDataDiff] = useState(false);
+  const [showDirectoryPanel, setShowDirectoryPanel] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const location = useLocation();
+  const navigate = useNavigate();
+  
+  // 打开分享链接时载入其中的对比内容，随后回到首页地址，避免刷新时覆盖之后的编辑
+  useEffect(() => {
+    if (location.pathname !== SHARE_ROUTE || !location.hash) return;
+    let active = true;
+    decodeShareFragment(location.hash)
+      .then(comparison => {
+        if (active) loadSharedComparison(comparison);
+      })
+      .catch(error => {
+        if (active) alert(`无法打开分享链接：${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        if (active) navigate('/', { replace: true });
+      });
+    return () => {
+      active = false;
+    };
+  }, [location.pathname, location.hash, loadSharedComparison, navigate]);
+  
+  // 打开工作区后还原滚动与导航位置
+  useEffect(() => {
+    if (!restoredView) return;
+    setLeftScrollTop(restoredView.scrollTop);
+    setLeftScrollLeft(restoredView.scrollLeft);
+    setRightScrollTop(restoredView.scrollTop);
+    setRightScrollLeft(restoredView.scrollLeft);
+    setCurrentRow(restoredView.currentRow);
+  }, [restoredView]);
+  
+  // 两侧编辑器需要还原的光标位置
+  const restoredCursors = useMemo(() => restoredView && {
+    original: { offset: restoredView.cursors.original },
+    modified: { offset: restoredView.cursors.modified }
+  }, [restoredView]);
+  
+  // 记录当前的滚动与导航位置，随工作区定期保存
+  useEffect(() => {
+    setWorkspaceView({ scrollTop: leftScrollTop, scrollLeft: leftScrollLeft, currentRow });
+  }, [leftScrollTop, leftScrollLeft, currentRow, setWorkspaceView]);
   
   // 防抖处理自动对比
   const debouncedOriginalCode = useDebounce(originalCode, 500);
   const debouncedModifiedCode = useDebounce(modifiedCode, 500);
+  const debouncedBaseCode = useDebounce(baseCode, 500);
   
-  // 自动对比逻辑
+  // 自动对比逻辑，对比算法或选项变化时同样重新对比
   useEffect(() => {
     if (autoCompare && (debouncedOriginalCode || debouncedModifiedCode)) {
       compareCode();
     }
-  }, [debouncedOriginalCode, debouncedModifiedCode, autoCompare, compareCode]);
+  }, [debouncedOriginalCode, debouncedModifiedCode, autoCompare, compareCode, diffAlgorithm, detectMoves, comparisonOptions, syntaxDiffLanguages, selectedLanguage, normalizeBeforeDiff, tabWidth]);
+  
+  // 粘贴、导入或编辑后重新检测两侧的语言
+  useEffect(() => {
+    detectLanguages();
+  }, [debouncedOriginalCode, debouncedModifiedCode, originalFileName, modifiedFileName, detectLanguages]);
+  
+  // 合并模式下三栏任一内容或对比选项变化时重新合并
+  useEffect(() => {
+    if (isMergeMode) {
+      computeMerge();
+    }
+  }, [debouncedBaseCode, debouncedOriginalCode, debouncedModifiedCode, isMergeMode, computeMerge, comparisonOptions]);
+  
+  // 统一视图只用于两方对比，合并模式下始终并排显示
+  const isUnified = viewMode === 'unified' && !isMergeMode;
+  const syntaxDiffEnabled = syntaxDiffLanguages.includes(selectedLanguage);
+  
+  // 对比结果变化后展开状态失效
+  useEffect(() => {
+    setFoldExpansions({});
+  }, [diffModel]);
+  
+  // 折叠的未修改区域，统一视图始终折叠，并排视图在只看变更时折叠
+  const folds = useMemo(() => {
+    if (!collapseUnchanged && !isUnified) return [];
+    return computeFolds(diffModel.rows, contextLines, foldExpansions);
+  }, [collapseUnchanged, isUnified, diffModel, contextLines, foldExpansions]);
+  
+  // 展开折叠区域
+  const handleExpandFold = useCallback((fold: FoldRange, direction: FoldExpandDirection) => {
+    setFoldExpansions(prev => expandFold(prev, fold, direction));
+  }, []);
+  
+  // 结构化数据差异，只在面板打开且语言支持时计算
+  const dataDiff = useMemo(() => {
+    if (!showDataDiff || isMergeMode || !isStructuredDataLanguage(selectedLanguage)) return null;
+    try {
+      return { changes: diffStructuredData(selectedLanguage, diffModel.originalCode, diffModel.modifiedCode), error: null };
+    } catch (error) {
+      return { changes: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [showDataDiff, isMergeMode, selectedLanguage, diffModel]);
+  
+  // 导出当前对比结果为独立的 HTML 报告，排版与折叠状态同当前视图
+  const exportHtmlReport = useCallback(async () => {
+    try {
+      const html = await createHtmlReport(diffModel, {
+        layout: isUnified ? 'unified' : 'split',
+        language: selectedLanguage,
+        comparisonOptions,
+        originalFileName,
+        modifiedFileName,
+        contextLines: collapseUnchanged || isUnified ? contextLines : null
+      });
+      const baseName = (modifiedFileName || originalFileName).split('/').pop() || 'diff';
+      downloadFile(html, `${baseName}-report.html`, 'text/html');
+    } catch (error) {
+      console.error('导出报告失败:', error);
+      alert('导出报告失败，请重试');
+    }
+  }, [diffModel, isUnified, selectedLanguage, comparisonOptions, originalFileName, modifiedFileName, collapseUnchanged, contextLines]);
+  
+  // 分享的对比内容
+  const sharedComparison = useMemo<SharedComparison>(() => ({
+    original: originalCode,
+    modified: modifiedCode,
+    language: selectedLanguage,
+    options: comparisonOptions,
+    originalFileName,
+    modifiedFileName
+  }), [originalCode, modifiedCode, selectedLanguage, comparisonOptions, originalFileName, modifiedFileName]);
+  
+  // 差异统计
+  const diffStats = useMemo(() => computeDiffStats(diffModel, comparisonOptions), [diffModel, comparisonOptions]);
+  
+  // 当前导航位置所在的变更块
+  const currentHunk = findHunkAtRow(diffModel.hunks, currentRow);
   
   // 处理左侧编辑器滚动
   const handleLeftScroll = useCallback((scrollTop: number, scrollLeft: number) => {
@@ -72,13 +300,47 @@ export default function Home() {
     setLeftScrollLeft(scrollLeft);
   }, []);
   
-  // 跳转到指定行
-  const navigateToLine = useCallback((lineNumber: number) => {
-    const scrollTop = (lineNumber - 1) * 24; // 24px per line
+  // 跳转到对齐行范围 [startRow, endRow) 并居中显示，两侧编辑器的滚动位置均以折叠后的对齐行为单位
+  const navigateToRange = useCallback((startRow: number, endRow: number) => {
+    const [start, end] = rowRangeToDisplayRange(folds, startRow, endRow);
+    const scrollTop = getCenteredScrollTop(start, end, editorViewportRef.current?.clientHeight ?? 0);
     setLeftScrollTop(scrollTop);
     setRightScrollTop(scrollTop);
-    setCurrentLine(lineNumber);
-  }, []);
+    setCurrentRow(startRow);
+    setNavigationTarget({ startRow, endRow, id: Date.now() });
+  }, [folds]);
+  
+  // 跳转到指定对齐行
+  const navigateToRow = useCallback((row: number) => {
+    navigateToRange(row, row + 1);
+  }, [navigateToRange]);
+  
+  // 跳转到变更块
+  const navigateToHunk = useCallback((hunk: DiffHunk) => {
+    navigateToRange(hunk.startRow, hunk.endRow);
+  }, [navigateToRange]);
+  
+  // 上一处/下一处变更的快捷键
+  useShortcuts({
+    nextHunk: () => {
+      const hunk = findNextHunk(diffModel.hunks, currentRow);
+      if (hunk) navigateToHunk(hunk);
+    },
+    previousHunk: () => {
+      const hunk = findPreviousHunk(diffModel.hunks, currentRow);
+      if (hunk) navigateToHunk(hunk);
+    }
+  });
+  
+  // 跳转到结构化变更所在的行，优先定位修改后的一侧
+  const handleSelectDataChange = useCallback((change: DataChange) => {
+    const side: DiffSide = change.modifiedRange ? 'modified' : 'original';
+    const range = change.modifiedRange ?? change.originalRange;
+    if (!range) return;
+    const code = side === 'modified' ? diffModel.modifiedCode : diffModel.originalCode;
+    const line = code.slice(0, range.start).split('\n').length - 1;
+    navigateToRow(lineToRow(diffModel, side, line));
+  }, [diffModel, navigateToRow]);
   
   // 复制代码到剪贴板
   const copyToClipboard = useCallback(async (text: string, type: string) => {
@@ -93,29 +355,45 @@ export default function Home() {
   
   // 导出代码文件
   const exportCode = useCallback((code: string, filename: string) => {
-    const blob = new Blob([code], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(code, filename);
   }, []);
   
-  // 导入代码文件
-  const importCode = useCallback((callback: (code: string) => void) => {
+  // 语言选择：选择具体语言后固定，选择自动检测时恢复检测
+  const handleLanguageChange = useCallback((value: string) => {
+    if (value === AUTO_DETECT_LANGUAGE) {
+      unpinLanguage();
+    } else {
+      setLanguage(value);
+    }
+  }, [setLanguage, unpinLanguage]);
+  
+  // 某一侧检测到的语言与当前语言不同时给出提示，点击后切换
+  const renderLanguageHint = (side: DiffSide) => {
+    const detected = detectedLanguages[side];
+    if (!detected || detected.language === selectedLanguage) return null;
+    return (
+      <button
+        onClick={() => setLanguage(detected.language)}
+        className="px-1.5 py-0.5 rounded bg-yellow-900/40 text-yellow-300 text-xs hover:bg-yellow-900/60 transition-colors"
+        title="该侧代码检测到的语言与当前语言不同，点击切换"
+      >
+        {getLanguageLabel(detected.language)}
+      </button>
+    );
+  };
+  
+  // 导入代码文件，同时返回文件名
+  const importCode = useCallback((callback: (code: string, fileName: string) => void) => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.txt,.js,.ts,.py,.java,.css,.json,.html,.md,.sql,.xml';
+    input.accept = IMPORT_ACCEPT;
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
         reader.onload = (e) => {
           const content = e.target?.result as string;
-          callback(content);
+          callback(content, file.name);
         };
         reader.readAsText(file);
       }
@@ -123,6 +401,41 @@ export default function Home() {
     input.click();
   }, []);
   
+  // 将补丁中的单个文件还原到左右两侧
+  const loadPatchFile = useCallback((file: PatchFile) => {
+    const { original, modified } = reconstructFromPatch(file);
+    setOriginalCode(original);
+    setModifiedCode(modified);
+    setOriginalFileName(file.oldFileName);
+    setModifiedFileName(file.newFileName);
+  }, [setOriginalCode, setModifiedCode, setOriginalFileName, setModifiedFileName]);
+  
+  // 导入补丁文件
+  const importPatch = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.patch,.diff,.txt';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (e) => {
+          const files = parsePatch(e.target?.result as string);
+          if (files.length === 0) {
+            alert('未能识别补丁内容，请检查文件格式');
+          } else if (files.length === 1) {
+            loadPatchFile(files[0]);
+          } else {
+            // 多文件补丁交由用户选择
+            setPatchFiles(files);
+          }
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  }, [loadPatchFile]);
+  
   return (
     <div className="h-screen bg-[#0d1117] text-gray-200 flex flex-col">
       {/* 顶部工具栏 */}
@@ -141,20 +454,15 @@ export default function Home() {
           <div className="flex items-center space-x-2">
             {/* 语言选择 */}
             <select
-              value={selectedLanguage}
-              onChange={(e) => setLanguage(e.target.value)}
+              value={languagePinned ? selectedLanguage : AUTO_DETECT_LANGUAGE}
+              onChange={(e) => handleLanguageChange(e.target.value)}
               className="px-3 py-1.5 bg-gray-800 border border-gray-600 rounded text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title={languagePinned ? '已固定语言，选择“自动检测”恢复检测' : '根据文件名与内容自动检测语言'}
             >
-              <option value="javascript">JavaScript</option>
-              <option value="typescript">TypeScript</option>
-              <option value="python">Python</option>
-              <option value="java">Java</option>
-              <option value="css">CSS</option>
-              <option value="json">JSON</option>
-              <option value="html">HTML</option>
-              <option value="markdown">Markdown</option>
-              <option value="sql">SQL</option>
-              <option value="xml">XML</option>
+              <option value={AUTO_DETECT_LANGUAGE}>自动 · {getLanguageLabel(selectedLanguage)}</option>
+              {LANGUAGES.map(language => (
+                <option key={language.id} value={language.id}>{language.label}</option>
+              ))}
             </select>
             
             {/* 自动对比开关 */}
@@ -175,16 +483,117 @@ export default function Home() {
                 disabled={isComparing}
                 className="px-4 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
               >
-                {isComparing ? '对比中...' : '开始对比'}
+                {isComparing ? `对比中 ${Math.round(compareProgress * 100)}%` : '开始对比'}
+              </button>
+            )}
+            
+            {/* 自动对比进度 */}
+            {autoCompare && isComparing && (
+              <span className="text-xs text-gray-400 tabular-nums">
+                对比中 {Math.round(compareProgress * 100)}%
+              </span>
+            )}
+            
+            {/* 视图模式切换 */}
+            <div className="flex items-center bg-gray-800 rounded">
+              <button
+                onClick={() => setViewMode('split')}
+                className={`p-1.5 rounded transition-colors ${
+                  viewMode === 'split' ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+                title="并排视图"
+              >
+                <Columns2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setViewMode('unified')}
+                className={`p-1.5 rounded transition-colors ${
+                  viewMode === 'unified' ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+                title="统一视图"
+              >
+                <Rows2 className="w-4 h-4" />
+              </button>
+            </div>
+            
+            {/* 只看变更 */}
+            <button
+              onClick={() => setCollapseUnchanged(!collapseUnchanged)}
+              className={`p-1.5 rounded transition-colors ${
+                collapseUnchanged ? 'bg-blue-600 text-white hover:bg-blue-700' : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title="只看变更：折叠未修改的区域"
+            >
+              <FoldVertical className="w-4 h-4" />
+            </button>
+            
+            {/* 语法感知对比，仅支持的语言显示 */}
+            {isSyntaxLanguage(selectedLanguage) && (
+              <button
+                onClick={() => setSyntaxDiff(!syntaxDiffEnabled)}
+                className={`p-1.5 rounded transition-colors ${
+                  syntaxDiffEnabled ? 'bg-blue-600 text-white hover:bg-blue-700' : 'hover:bg-gray-700 text-gray-300'
+                }`}
+                title="语法感知对比：忽略格式、声明顺序等不影响语义的差异"
+              >
+                <Braces className="w-4 h-4" />
               </button>
             )}
             
+            {/* 结构化差异面板，仅数据格式显示 */}
+            {isStructuredDataLanguage(selectedLanguage) && !isMergeMode && (
+              <button
+                onClick={() => setShowDataDiff(!showDataDiff)}
+                className={`p-1.5 rounded transition-colors ${
+                  showDataDiff ? 'bg-blue-600 text-white hover:bg-blue-700' : 'hover:bg-gray-700 text-gray-300'
+                }`}
+                title="结构化差异：按路径列出数据变更，忽略键顺序"
+              >
+                <ListTree className="w-4 h-4" />
+              </button>
+            )}
+            
+            {/* 目录对比 */}
+            <button
+              onClick={() => setShowDirectoryPanel(!showDirectoryPanel)}
+              className={`p-1.5 rounded transition-colors ${
+                showDirectoryPanel ? 'bg-blue-600 text-white hover:bg-blue-700' : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title="目录对比：对比两个文件夹或 ZIP 压缩包"
+            >
+              <FolderTree className="w-4 h-4" />
+            </button>
+            
+            {/* 三方合并模式 */}
+            <button
+              onClick={() => setMergeMode(!isMergeMode)}
+              className={`flex items-center space-x-1 px-3 py-1.5 rounded text-sm transition-colors ${
+                isMergeMode ? 'bg-blue-600 text-white hover:bg-blue-700' : 'hover:bg-gray-700 text-gray-300'
+              }`}
+              title="三方合并：以基础版本合并原始与修改代码"
+            >
+              <GitMerge className="w-4 h-4" />
+              <span>合并</span>
+            </button>
+            
+            {/* 差异统计 */}
+            {diffModel.rows.length > 0 && !isMergeMode && (
+              <DiffStatsPanel stats={diffStats} diffModel={diffModel} onNavigate={navigateToRow} />
+            )}
+            
             {/* 差异导航 */}
             <DiffNavigator
-              diffLines={diffLines}
-              currentLine={currentLine}
-              onNavigate={navigateToLine}
+              diffModel={diffModel}
+              currentRow={currentRow}
+              onNavigate={navigateToRow}
+              onNavigateToHunk={navigateToHunk}
               onReset={clearCode}
+              onAcceptLeft={currentHunk ? () => applyHunk(currentHunk.index, 'toModified') : undefined}
+              onAcceptRight={currentHunk ? () => applyHunk(currentHunk.index, 'toOriginal') : undefined}
+              onUndoMerge={undoMerge}
+              onRedoMerge={redoMerge}
+              canUndoMerge={mergeUndoStack.length > 0}
+              canRedoMerge={mergeRedoStack.length > 0}
             />
           </div>
           
@@ -199,6 +608,45 @@ export default function Home() {
               {isDarkMode ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
             </button>
             
+            {/* 导入补丁 */}
+            <button
+              onClick={importPatch}
+              className="p-2 rounded hover:bg-gray-700 transition-colors"
+              title="导入补丁"
+            >
+              <FileUp className="w-4 h-4" />
+            </button>
+            
+            {/* 导出 HTML 报告 */}
+            <button
+              onClick={exportHtmlReport}
+              disabled={diffModel.rows.length === 0 || isMergeMode}
+              className="p-2 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="导出 HTML 报告"
+            >
+              <FileText className="w-4 h-4" />
+            </button>
+            
+            {/* 分享链接 */}
+            <button
+              onClick={() => setShowShare(true)}
+              disabled={!originalCode && !modifiedCode}
+              className="p-2 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="分享对比链接"
+            >
+              <Share2 className="w-4 h-4" />
+            </button>
+            
+            {/* 保存快照 */}
+            <button
+              onClick={saveSnapshot}
+              disabled={!originalCode.trim() && !modifiedCode.trim()}
+              className="p-2 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="保存快照到历史记录"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+            </button>
+            
             {/* 历史记录 */}
             <button
               onClick={() => setShowHistory(true)}
@@ -220,13 +668,104 @@ export default function Home() {
         </div>
       </header>
       
+      {/* 工作区标签 */}
+      <WorkspaceTabs
+        workspaces={workspaces}
+        activeId={activeWorkspaceId}
+        onSelect={switchWorkspace}
+        onCreate={createWorkspace}
+        onRename={renameWorkspace}
+        onClose={closeWorkspace}
+      />
+      
       {/* 主要内容区域 */}
       <main className="flex-1 flex overflow-hidden">
-        {/* 左侧编辑器 */}
-        <div className="flex-1 flex flex-col border-r border-gray-700">
+        {/* 目录对比面板 */}
+        {showDirectoryPanel && (
+          <DirectoryComparePanel
+            sources={directorySources}
+            onSourceChange={setDirectorySource}
+            activePath={activeFilePath}
+            onOpenFile={openFileComparison}
+            onClose={() => setShowDirectoryPanel(false)}
+          />
+        )}
+        
+        {/* 基础版本编辑器（仅合并模式） */}
+        {isMergeMode && (
+          <div className="flex-1 flex flex-col border-r border-gray-700">
+            <div className="bg-[#161b22] border-b border-gray-700 px-4 py-2 flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300">基础版本</span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => importCode((code) => setBaseCode(code))}
+                  className="p-1.5 rounded hover:bg-gray-700 transition-colors"
+                  title="导入代码"
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            
+            <div className="flex-1 relative">
+              <CodeEditor
+                value={baseCode}
+                onChange={setBaseCode}
+                language={selectedLanguage}
+                placeholder="请输入双方共同的基础版本..."
+                className="h-full"
+              />
+            </div>
+          </div>
+        )}
+        
+        {/* 统一视图 */}
+        {isUnified && (
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="bg-[#161b22] border-b border-gray-700 px-4 py-2 flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-300 truncate">
+                {originalFileName || '原始代码'} → {modifiedFileName || '修改代码'}
+              </span>
+              <button
+                onClick={() => setShowPatchExport(true)}
+                disabled={diffModel.rows.length === 0}
+                className="p-1.5 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="导出补丁"
+              >
+                <FileDiff className="w-4 h-4" />
+              </button>
+            </div>
+            
+            <div className="flex-1 relative flex min-h-0">
+              <div className="flex-1 min-w-0">
+                <UnifiedDiffView
+                  diffModel={diffModel}
+                  language={selectedLanguage}
+                  comparisonOptions={comparisonOptions}
+                  folds={folds}
+                  onExpandFold={handleExpandFold}
+                  navigationTarget={navigationTarget}
+                  onSwitchToSplit={() => setViewMode('split')}
+                />
+              </div>
+              
+              <DiffProgressBar
+                diffModel={diffModel}
+                currentRow={currentRow}
+                onRowClick={navigateToRow}
+              />
+            </div>
+          </div>
+        )}
+        
+        {/* 左侧编辑器，统一视图下隐藏以保留编辑状态 */}
+        <div className={`flex-1 flex flex-col border-r border-gray-700 ${isUnified ? 'hidden' : ''}`}>
           {/* 左侧工具栏 */}
           <div className="bg-[#161b22] border-b border-gray-700 px-4 py-2 flex items-center justify-between">
-            <span className="text-sm font-medium text-gray-300">原始代码</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-300">原始代码{isMergeMode && ' (ours)'}</span>
+              {renderLanguageHint('original')}
+            </div>
             <div className="flex items-center space-x-2">
               <button
                 onClick={() => copyToClipboard(originalCode, '原始')}
@@ -236,14 +775,17 @@ export default function Home() {
                 <Copy className="w-4 h-4" />
               </button>
               <button
-                onClick={() => exportCode(originalCode, `original.${selectedLanguage === 'javascript' ? 'js' : selectedLanguage}`)}
+                onClick={() => exportCode(originalCode, `original${getLanguageExtension(selectedLanguage)}`)}
                 className="p-1.5 rounded hover:bg-gray-700 transition-colors"
                 title="导出代码"
               >
                 <Download className="w-4 h-4" />
               </button>
               <button
-                onClick={() => importCode(setOriginalCode)}
+                onClick={() => importCode((code, fileName) => {
+                  setOriginalCode(code);
+                  setOriginalFileName(fileName);
+                })}
                 className="p-1.5 rounded hover:bg-gray-700 transition-colors"
                 title="导入代码"
               >
@@ -253,27 +795,37 @@ export default function Home() {
           </div>
           
           {/* 左侧编辑器 */}
-          <div className="flex-1 relative">
+          <div className="flex-1 relative" ref={editorViewportRef}>
             <CodeEditor
               value={originalCode}
               onChange={setOriginalCode}
               language={selectedLanguage}
               placeholder="请输入原始代码..."
               className="h-full"
-              otherCode={modifiedCode}
               isLeft={true}
               onScroll={handleLeftScroll}
               scrollTop={leftScrollTop}
               scrollLeft={leftScrollLeft}
+              diffModel={diffModel}
+              folds={folds}
+              onExpandFold={handleExpandFold}
+              comparisonOptions={comparisonOptions}
+              onHunkAction={(hunkIndex) => applyHunk(hunkIndex, 'toModified')}
+              flashTarget={navigationTarget}
+              onCursorChange={(offset) => setWorkspaceCursor('original', offset)}
+              restoredCursor={restoredCursors?.original}
             />
           </div>
         </div>
         
         {/* 右侧编辑器 */}
-        <div className="flex-1 flex flex-col">
+        <div className={`flex-1 flex flex-col ${isUnified ? 'hidden' : ''}`}>
           {/* 右侧工具栏 */}
           <div className="bg-[#161b22] border-b border-gray-700 px-4 py-2 flex items-center justify-between">
-            <span className="text-sm font-medium text-gray-300">修改代码</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-medium text-gray-300">修改代码{isMergeMode && ' (theirs)'}</span>
+              {renderLanguageHint('modified')}
+            </div>
             <div className="flex items-center space-x-2">
               <button
                 onClick={() => copyToClipboard(modifiedCode, '修改')}
@@ -283,19 +835,30 @@ export default function Home() {
                 <Copy className="w-4 h-4" />
               </button>
               <button
-                onClick={() => exportCode(modifiedCode, `modified.${selectedLanguage === 'javascript' ? 'js' : selectedLanguage}`)}
+                onClick={() => exportCode(modifiedCode, `modified${getLanguageExtension(selectedLanguage)}`)}
                 className="p-1.5 rounded hover:bg-gray-700 transition-colors"
                 title="导出代码"
               >
                 <Download className="w-4 h-4" />
               </button>
               <button
-                onClick={() => importCode(setModifiedCode)}
+                onClick={() => importCode((code, fileName) => {
+                  setModifiedCode(code);
+                  setModifiedFileName(fileName);
+                })}
                 className="p-1.5 rounded hover:bg-gray-700 transition-colors"
                 title="导入代码"
               >
                 <Upload className="w-4 h-4" />
               </button>
+              <button
+                onClick={() => setShowPatchExport(true)}
+                disabled={diffModel.rows.length === 0}
+                className="p-1.5 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="导出补丁"
+              >
+                <FileDiff className="w-4 h-4" />
+              </button>
             </div>
           </div>
           
@@ -308,26 +871,51 @@ export default function Home() {
                 language={selectedLanguage}
                 placeholder="请输入修改后的代码..."
                 className="h-full"
-                otherCode={originalCode}
                 isLeft={false}
                 onScroll={handleRightScroll}
                 scrollTop={rightScrollTop}
                 scrollLeft={rightScrollLeft}
+                diffModel={diffModel}
+                folds={folds}
+                onExpandFold={handleExpandFold}
+                comparisonOptions={comparisonOptions}
+                onHunkAction={(hunkIndex) => applyHunk(hunkIndex, 'toOriginal')}
+                flashTarget={navigationTarget}
+                onCursorChange={(offset) => setWorkspaceCursor('modified', offset)}
+                restoredCursor={restoredCursors?.modified}
               />
             </div>
             
             {/* 差异进度条 */}
             <DiffProgressBar
-              diffLines={diffLines}
-              totalLines={Math.max(
-                originalCode.split('\n').length,
-                modifiedCode.split('\n').length
-              )}
-              currentLine={currentLine}
-              onLineClick={navigateToLine}
+              diffModel={diffModel}
+              currentRow={currentRow}
+              onRowClick={navigateToRow}
             />
           </div>
         </div>
+        
+        {/* 三方合并面板 */}
+        {isMergeMode && (
+          <MergePanel
+            regions={mergeRegions}
+            resolutions={conflictResolutions}
+            onResolve={resolveConflict}
+            getMergedCode={getMergedCode}
+            onLoadConflictText={loadConflictText}
+            fileName={originalFileName || modifiedFileName || `merged${getLanguageExtension(selectedLanguage)}`}
+          />
+        )}
+        
+        {/* 结构化差异面板 */}
+        {dataDiff && (
+          <DataDiffPanel
+            changes={dataDiff.changes}
+            error={dataDiff.error}
+            onSelect={handleSelectDataChange}
+            fileName={`${(modifiedFileName || originalFileName || 'data').replace(/\.[^.]+$/, '')}.patch.json`}
+          />
+        )}
       </main>
       
       {/* 历史记录面板 */}
@@ -336,11 +924,44 @@ export default function Home() {
         isOpen={showHistory}
         onClose={() => setShowHistory(false)}
         onLoadRecord={loadFromHistory}
+        onCompareVersions={compareHistoryVersions}
+        onUpdateRecord={updateHistoryRecord}
+        onDeleteRecord={deleteHistoryRecord}
         onClearHistory={clearHistory}
         onExportHistory={exportHistory}
         onImportHistory={importHistory}
       />
       
+      {/* 补丁导出面板 */}
+      <PatchExportPanel
+        isOpen={showPatchExport}
+        onClose={() => setShowPatchExport(false)}
+        originalCode={diffModel.originalCode}
+        modifiedCode={diffModel.modifiedCode}
+        lineDiffs={diffModel.rows}
+        originalFileName={originalFileName}
+        modifiedFileName={modifiedFileName}
+        fallbackFileName={`code${getLanguageExtension(selectedLanguage)}`}
+        onOriginalFileNameChange={setOriginalFileName}
+        onModifiedFileNameChange={setModifiedFileName}
+      />
+      
+      {/* 分享面板 */}
+      <SharePanel
+        isOpen={showShare}
+        onClose={() => setShowShare(false)}
+        comparison={sharedComparison}
+        fileName={(modifiedFileName || originalFileName).split('/').pop() || 'comparison'}
+      />
+      
+      {/* 补丁导入面板 */}
+      <PatchImportPanel
+        files={patchFiles}
+        isOpen={patchFiles.length > 0}
+        onClose={() => setPatchFiles([])}
+        onSelectFile={loadPatchFile}
+      />
+      
       {/* 设置面板 */}
       <SettingsPanel
         isOpen={showSettings}
@@ -348,7 +969,22 @@ export default function Home() {
         isDarkMode={isDarkMode}
         onToggleTheme={toggleTheme}
         selectedLanguage={selectedLanguage}
-        onLanguageChange={setLanguage}
+        languagePinned={languagePinned}
+        onLanguageChange={handleLanguageChange}
+        diffAlgorithm={diffAlgorithm}
+        onDiffAlgorithmChange={setDiffAlgorithm}
+        detectMoves={detectMoves}
+        onDetectMovesChange={setDetectMoves}
+        comparisonOptions={comparisonOptions}
+        onComparisonOptionsChange={setComparisonOptions}
+        contextLines={contextLines}
+        onContextLinesChange={setContextLines}
+        normalizeBeforeDiff={normalizeBeforeDiff}
+        onNormalizeBeforeDiffChange={setNormalizeBeforeDiff}
+        tabWidth={tabWidth}
+        onTabWidthChange={setTabWidth}
+        historyRetention={historyRetention}
+        onHistoryRetentionChange={setHistoryRetention}
       />
     </div>
   );
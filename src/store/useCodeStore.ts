@@ -1,14 +1,74 @@
 import { create } from 'zustand';
-import DiffMatchPatch from 'diff-match-patch';
+import type { DiffAlgorithm } from '../lib/lineDiff';
+import { DEFAULT_COMPARISON_OPTIONS, type ComparisonOptions } from '../lib/compareOptions';
+import { cancelLineDiff, runLineDiff } from '../lib/diffWorkerClient';
+import { mergeHunk, type MergeDirection } from '../lib/hunks';
+import { buildDiffModel, EMPTY_DIFF_MODEL, type DiffModel, type DiffSide } from '../lib/diffModel';
+import type { FileComparison, FileSource } from '../lib/directoryDiff';
+import type { SharedComparison } from '../lib/shareLink';
+import { computeDiffStats } from '../lib/diffStats';
+import {
+  DEFAULT_LANGUAGE,
+  DETECTION_CONFIDENCE,
+  detectLanguage,
+  type LanguageDetection
+} from '../lib/languages';
+import { DEFAULT_CONTEXT_LINES } from '../lib/folding';
+import {
+  applyHistoryRetention,
+  createHistoryId,
+  DEFAULT_HISTORY_RETENTION,
+  getHistoryRecordName,
+  HISTORY_SESSION_IDLE_MS,
+  HISTORY_SIDE_LABELS,
+  isAutoSavedRecord,
+  type HistoryRecord,
+  type HistoryRetention,
+  type HistoryVersion
+} from '../lib/history';
+import {
+  createHistoryExport,
+  mergeImportedRecords,
+  type DuplicateStrategy,
+  type HistoryImportSummary
+} from '../lib/historyFormat';
+import {
+  deleteHistoryRecords,
+  deleteWorkspace,
+  getAllHistoryRecords,
+  getAllWorkspaces,
+  getWorkspace,
+  migrateLegacyHistory,
+  putHistoryRecords,
+  putWorkspace,
+  putWorkspaceView
+} from '../lib/database';
+import {
+  createWorkspaceId,
+  EMPTY_WORKSPACE_VIEW,
+  getDefaultWorkspaceName,
+  getWorkspaceSession,
+  isSameSession,
+  toWorkspaceSummary,
+  WORKSPACE_SAVE_INTERVAL_MS,
+  type ViewMode,
+  type Workspace,
+  type WorkspaceSession,
+  type WorkspaceSummary,
+  type WorkspaceView
+} from '../lib/workspace';
+import { isSyntaxLanguage } from '../lib/syntaxDiff';
+import { DEFAULT_TAB_WIDTH } from '../lib/normalize';
+import {
+  buildMergedCode,
+  computeThreeWayMerge,
+  parseConflictMarkers,
+  type ConflictResolution,
+  type MergeRegion
+} from '../lib/merge3';
 
-// 历史记录类型定义
-export interface HistoryRecord {
-  id: string;
-  timestamp: number;
-  original: string;
-  modified: string;
-  lang: string;
-}
+export type { HistoryRecord } from '../lib/history';
+export type { ViewMode } from '../lib/workspace';
 
 // Store状态类型定义
 interface CodeStore {
@@ -16,187 +76,234 @@ interface CodeStore {
   originalCode: string;
   modifiedCode: string;
   
-  // 差异结果（简化，主要用于导航）
-  diffLines: number[];
-  lineDiffs: LineDiffResult[]; // 新增：详细的行差异信息
+  // 文件名（导入文件时记录，也可手动编辑，用于补丁导出）
+  originalFileName: string;
+  modifiedFileName: string;
+  
+  // 差异结果：对齐行、变更块及行号映射，供编辑器、导航与进度条共用
+  diffModel: DiffModel;
+  
+  // 合并操作的撤销/重做栈
+  mergeUndoStack: MergeSnapshot[];
+  mergeRedoStack: MergeSnapshot[];
+  
+  // 三方合并：原始代码作为我方(ours)，修改代码作为对方(theirs)
+  baseCode: string;
+  isMergeMode: boolean;
+  mergeRegions: MergeRegion[];
+  conflictResolutions: Record<number, ConflictResolution>; // 以区域下标为键
   
-  // 历史记录
+  // 历史记录（保存在 IndexedDB 中，启动时异步载入）
   history: HistoryRecord[];
+  historyRetention: HistoryRetention;
+  
+  // 目录对比：两侧的文件夹或压缩包，以及当前在编辑器中打开的文件
+  directorySources: Record<DiffSide, FileSource | null>;
+  activeFilePath: string | null;
+  
+  // 工作区：当前工作区的内容与设置定期保存到 IndexedDB，启动时恢复
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string;
+  restoredView: WorkspaceView | null; // 打开工作区后需要还原的滚动与光标位置
   
   // UI状态
+  autoCompare: boolean;
   isComparing: boolean;
+  compareProgress: number; // 对比进度 0~1
+  diffAlgorithm: DiffAlgorithm;
+  detectMoves: boolean; // 检测移动的代码块
+  comparisonOptions: ComparisonOptions;
+  viewMode: ViewMode;
+  collapseUnchanged: boolean; // 只看变更：折叠未修改区域
+  contextLines: number; // 折叠时变更前后保留的行数
+  syntaxDiffLanguages: string[]; // 启用语法感知对比的语言
+  normalizeBeforeDiff: boolean; // 对比前格式化两侧代码
+  tabWidth: number; // 格式化时的缩进宽度
   selectedLanguage: string;
+  languagePinned: boolean; // 用户手动选择语言后不再自动切换
+  detectedLanguages: Record<DiffSide, LanguageDetection | null>; // 两侧分别检测到的语言
   isDarkMode: boolean;
   
   // Actions
   setOriginalCode: (code: string) => void;
   setModifiedCode: (code: string) => void;
-  compareCode: () => void;
+  setOriginalFileName: (name: string) => void;
+  setModifiedFileName: (name: string) => void;
+  compareCode: () => Promise<void>;
   clearCode: () => void;
   
+  // 变更块合并
+  applyHunk: (hunkIndex: number, direction: MergeDirection) => void;
+  undoMerge: () => void;
+  redoMerge: () => void;
+  
+  // 三方合并
+  setBaseCode: (code: string) => void;
+  setMergeMode: (enabled: boolean) => void;
+  computeMerge: () => void;
+  resolveConflict: (regionIndex: number, resolution: ConflictResolution | null) => void;
+  getMergedCode: (withMarkers: boolean) => string;
+  loadConflictText: (text: string) => boolean;
+  
+  // 目录对比
+  setDirectorySource: (side: DiffSide, source: FileSource | null) => void;
+  openFileComparison: (file: FileComparison) => void;
+  
   // 历史记录管理
   saveToHistory: () => void;
+  saveSnapshot: () => void;
   loadFromHistory: (record: HistoryRecord) => void;
+  compareHistoryVersions: (left: HistoryVersion, right: HistoryVersion) => void;
+  updateHistoryRecord: (id: string, changes: Partial<Pick<HistoryRecord, 'title' | 'tags' | 'pinned'>>) => void;
+  deleteHistoryRecord: (id: string) => void;
   clearHistory: () => void;
   exportHistory: () => string;
-  importHistory: (data: string) => boolean;
+  importHistory: (records: HistoryRecord[], strategy: DuplicateStrategy) => HistoryImportSummary;
+  setHistoryRetention: (retention: Partial<HistoryRetention>) => void;
+  
+  // 分享链接
+  loadSharedComparison: (comparison: SharedComparison) => void;
+  
+  // 工作区
+  createWorkspace: () => void;
+  switchWorkspace: (id: string) => Promise<void>;
+  renameWorkspace: (id: string, name: string) => void;
+  closeWorkspace: (id: string) => Promise<void>;
+  setWorkspaceView: (view: Partial<Omit<WorkspaceView, 'cursors'>>) => void;
+  setWorkspaceCursor: (side: DiffSide, offset: number) => void;
   
   // 设置
+  setAutoCompare: (enabled: boolean) => void;
   setLanguage: (lang: string) => void;
+  unpinLanguage: () => void;
+  detectLanguages: () => void;
+  setDiffAlgorithm: (algorithm: DiffAlgorithm) => void;
+  setDetectMoves: (enabled: boolean) => void;
+  setComparisonOptions: (options: Partial<ComparisonOptions>) => void;
+  setViewMode: (mode: ViewMode) => void;
+  setCollapseUnchanged: (enabled: boolean) => void;
+  setContextLines: (lines: number) => void;
+  setSyntaxDiff: (enabled: boolean) => void;
+  setNormalizeBeforeDiff: (enabled: boolean) => void;
+  setTabWidth: (width: number) => void;
   toggleTheme: () => void;
 }
 
-// 创建diff实例
-const dmp = new DiffMatchPatch();
-
-// 本地存储键名
-const STORAGE_KEY = 'codecheckup_history';
-
-// 差异类型定义
-type DiffType = 'equal' | 'insert' | 'delete' | 'modify';
+// 合并前的两侧代码快照
+interface MergeSnapshot {
+  originalCode: string;
+  modifiedCode: string;
+}
 
-// 行差异结果接口
-interface LineDiffResult {
-  type: DiffType;
-  originalLine?: string;
-  modifiedLine?: string;
-  originalIndex?: number;
-  modifiedIndex?: number;
+// 持久化的对比设置
+interface StoredSettings {
+  diffAlgorithm: DiffAlgorithm;
+  detectMoves: boolean;
+  comparisonOptions: ComparisonOptions;
+  viewMode?: ViewMode; // 仅在用户手动切换后保存，未保存时按屏幕宽度决定
+  collapseUnchanged: boolean;
+  contextLines: number;
+  syntaxDiffLanguages: string[];
+  normalizeBeforeDiff: boolean;
+  tabWidth: number;
+  historyRetention: HistoryRetention;
 }
 
-// 基于LCS算法的智能行对齐函数
-const computeLineDiff = (originalLines: string[], modifiedLines: string[]): LineDiffResult[] => {
-  const m = originalLines.length;
-  const n = modifiedLines.length;
-  
-  // 构建LCS动态规划表
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (originalLines[i - 1].trim() === modifiedLines[j - 1].trim()) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-      }
-    }
-  }
-  
-  // 回溯构建差异结果
-  const result: LineDiffResult[] = [];
-  let i = m, j = n;
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && originalLines[i - 1].trim() === modifiedLines[j - 1].trim()) {
-      // 相同行
-      result.unshift({
-        type: 'equal',
-        originalLine: originalLines[i - 1],
-        modifiedLine: modifiedLines[j - 1],
-        originalIndex: i - 1,
-        modifiedIndex: j - 1
-      });
-      i--;
-      j--;
-    } else if (i > 0 && j > 0) {
-      // 修改行 - 使用字符级差异检测
-      const originalLine = originalLines[i - 1];
-      const modifiedLine = modifiedLines[j - 1];
-      
-      // 计算字符级相似度
-      const similarity = calculateSimilarity(originalLine, modifiedLine);
-      
-      if (similarity > 0.3) { // 相似度阈值
-        result.unshift({
-          type: 'modify',
-          originalLine,
-          modifiedLine,
-          originalIndex: i - 1,
-          modifiedIndex: j - 1
-        });
-        i--;
-        j--;
-      } else if (dp[i - 1][j] > dp[i][j - 1]) {
-        // 删除行
-        result.unshift({
-          type: 'delete',
-          originalLine: originalLines[i - 1],
-          originalIndex: i - 1
-        });
-        i--;
-      } else {
-        // 插入行
-        result.unshift({
-          type: 'insert',
-          modifiedLine: modifiedLines[j - 1],
-          modifiedIndex: j - 1
-        });
-        j--;
-      }
-    } else if (i > 0) {
-      // 删除行
-      result.unshift({
-        type: 'delete',
-        originalLine: originalLines[i - 1],
-        originalIndex: i - 1
-      });
-      i--;
-    } else {
-      // 插入行
-      result.unshift({
-        type: 'insert',
-        modifiedLine: modifiedLines[j - 1],
-        modifiedIndex: j - 1
-      });
-      j--;
-    }
-  }
-  
-  return result;
-};
+// 本地存储键名
+const SETTINGS_KEY = 'codecheckup_settings';
+const ACTIVE_WORKSPACE_KEY = 'codecheckup_active_workspace';
 
-// 计算两个字符串的相似度
-const calculateSimilarity = (str1: string, str2: string): number => {
-  const diffs = dmp.diff_main(str1, str2);
-  dmp.diff_cleanupSemantic(diffs);
-  
-  let totalLength = 0;
-  let equalLength = 0;
-  
-  diffs.forEach(([type, text]) => {
-    totalLength += text.length;
-    if (type === 0) { // 相等部分
-      equalLength += text.length;
+// 重新合并后保留内容未变的冲突的解决方式
+const preserveResolutions = (
+  previous: MergeRegion[],
+  next: MergeRegion[],
+  resolutions: Record<number, ConflictResolution>
+): Record<number, ConflictResolution> => {
+  const preserved: Record<number, ConflictResolution> = {};
+  Object.entries(resolutions).forEach(([key, resolution]) => {
+    const index = Number(key);
+    const before = previous[index];
+    const after = next[index];
+    if (
+      before?.kind === 'conflict' && after?.kind === 'conflict' &&
+      before.ours.join('\n') === after.ours.join('\n') &&
+      before.theirs.join('\n') === after.theirs.join('\n')
+    ) {
+      preserved[index] = resolution;
     }
   });
-  
-  return totalLength > 0 ? equalLength / totalLength : 0;
+  return preserved;
 };
 
-// 从localStorage加载历史记录
-const loadHistoryFromStorage = (): HistoryRecord[] => {
+// 从localStorage加载对比设置，缺失的字段使用默认值
+const loadSettingsFromStorage = (): StoredSettings => {
+  const defaults: StoredSettings = {
+    diffAlgorithm: 'myers',
+    detectMoves: true,
+    comparisonOptions: DEFAULT_COMPARISON_OPTIONS,
+    collapseUnchanged: false,
+    contextLines: DEFAULT_CONTEXT_LINES,
+    syntaxDiffLanguages: [],
+    normalizeBeforeDiff: false,
+    tabWidth: DEFAULT_TAB_WIDTH,
+    historyRetention: DEFAULT_HISTORY_RETENTION
+  };
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(SETTINGS_KEY);
     if (stored) {
       const data = JSON.parse(stored);
-      // 过滤30天内的记录
-      const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
-      return data.filter((record: HistoryRecord) => record.timestamp > thirtyDaysAgo);
+      return {
+        diffAlgorithm: data.diffAlgorithm ?? defaults.diffAlgorithm,
+        detectMoves: data.detectMoves ?? defaults.detectMoves,
+        comparisonOptions: { ...defaults.comparisonOptions, ...data.comparisonOptions },
+        viewMode: data.viewMode,
+        collapseUnchanged: data.collapseUnchanged ?? defaults.collapseUnchanged,
+        contextLines: data.contextLines ?? defaults.contextLines,
+        syntaxDiffLanguages: Array.isArray(data.syntaxDiffLanguages) ? data.syntaxDiffLanguages : defaults.syntaxDiffLanguages,
+        normalizeBeforeDiff: data.normalizeBeforeDiff ?? defaults.normalizeBeforeDiff,
+        tabWidth: data.tabWidth ?? defaults.tabWidth,
+        historyRetention: { ...defaults.historyRetention, ...data.historyRetention }
+      };
     }
   } catch (error) {
-    console.error('Failed to load history from storage:', error);
+    console.error('Failed to load settings from storage:', error);
+  }
+  return defaults;
+};
+
+// 保存对比设置到localStorage
+const saveSettingsToStorage = (settings: StoredSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save settings to storage:', error);
+  }
+};
+
+// 上次打开的工作区
+const loadActiveWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  } catch {
+    return null;
   }
-  return [];
 };
 
-// 保存历史记录到localStorage
-const saveHistoryToStorage = (history: HistoryRecord[]) => {
+// 记录当前打开的工作区，下次启动时恢复
+const saveActiveWorkspaceId = (id: string) => {
   try {
-    // 只保留最近20条记录
-    const limitedHistory = history.slice(0, 20);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(limitedHistory));
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
   } catch (error) {
-    console.error('Failed to save history to storage:', error);
+    console.error('Failed to save active workspace:', error);
+  }
+};
+
+// 窄屏（移动端）默认使用统一视图
+const getDefaultViewMode = (): ViewMode => {
+  try {
+    return window.matchMedia('(max-width: 767px)').matches ? 'unified' : 'split';
+  } catch {
+    return 'split';
   }
 };
 
@@ -216,6 +323,252 @@ const getInitialTheme = (): boolean => {
 // 创建Zustand store
 export const useCodeStore = create<CodeStore>((set, get) => {
   const initialIsDarkMode = getInitialTheme();
+  const initialSettings = loadSettingsFromStorage();
+  let savedViewMode = initialSettings.viewMode;
+  
+  // 当前编辑会话自动保存的记录，继续编辑时由新内容的记录取代；载入其他内容或保存快照后开始新的会话
+  let sessionRecordId: string | null = null;
+  
+  // 启动时的空白工作区，载入已保存的工作区后被取代
+  const initialWorkspace: WorkspaceSummary = { id: createWorkspaceId(), name: getDefaultWorkspaceName([]), createdAt: Date.now() };
+  
+  // 当前工作区的视图位置变化频繁，不放入状态以免重新渲染；savedSession 为最近一次保存的会话，用于判断是否需要保存
+  let workspaceView: WorkspaceView = EMPTY_WORKSPACE_VIEW;
+  let workspaceDirty = false; // 名称变化后需要保存
+  let viewDirty = false; // 视图位置变化后需要保存
+  let savedSession: WorkspaceSession | null = null;
+  let workspacesLoaded = false; // 载入已保存的工作区之前不保存，避免覆盖
+  
+  // 保存当前的对比设置
+  const persistSettings = () => {
+    const {
+      diffAlgorithm,
+      detectMoves,
+      comparisonOptions,
+      collapseUnchanged,
+      contextLines,
+      syntaxDiffLanguages,
+      normalizeBeforeDiff,
+      tabWidth,
+      historyRetention
+    } = get();
+    saveSettingsToStorage({
+      diffAlgorithm,
+      detectMoves,
+      comparisonOptions,
+      viewMode: savedViewMode,
+      collapseUnchanged,
+      contextLines,
+      syntaxDiffLanguages,
+      normalizeBeforeDiff,
+      tabWidth,
+      historyRetention
+    });
+  };
+  
+  // 按保留策略更新历史记录，并将新增或修改的记录写入 IndexedDB、删除被取代与过期的记录
+  const updateHistory = (records: HistoryRecord[], changed: HistoryRecord[] = [], removedIds: string[] = []) => {
+    const { kept, expired } = applyHistoryRetention(records, get().historyRetention);
+    set({ history: kept });
+    
+    const expiredIds = new Set(expired.map(record => record.id));
+    putHistoryRecords(changed.filter(record => !expiredIds.has(record.id)))
+      .then(() => deleteHistoryRecords([...expiredIds, ...removedIds]))
+      .catch(error => console.error('Failed to save history:', error));
+  };
+  
+  // 保存当前两侧代码，snapshot 为 true 时作为手动快照保存
+  const saveRecord = (snapshot: boolean) => {
+    const { originalCode, modifiedCode, selectedLanguage, comparisonOptions, diffModel, history } = get();
+    
+    if (!originalCode.trim() && !modifiedCode.trim()) return;
+    
+    const id = createHistoryId(originalCode, modifiedCode, selectedLanguage);
+    const now = Date.now();
+    const existing = history.find(record => record.id === id);
+    
+    // 内容与已有记录相同：自动保存直接跳过，手动快照将该记录标记为快照
+    if (existing) {
+      if (snapshot) {
+        const updatedRecord = { ...existing, timestamp: now, snapshot: true };
+        sessionRecordId = null;
+        updateHistory(history.map(record => (record.id === id ? updatedRecord : record)), [updatedRecord]);
+      }
+      return;
+    }
+    
+    const isDiffCurrent = diffModel.originalCode === originalCode && diffModel.modifiedCode === modifiedCode;
+    const newRecord: HistoryRecord = {
+      id,
+      timestamp: now,
+      original: originalCode,
+      modified: modifiedCode,
+      lang: selectedLanguage,
+      options: comparisonOptions,
+      stats: isDiffCurrent ? computeDiffStats(diffModel, comparisonOptions) : undefined,
+      snapshot: snapshot || undefined
+    };
+    
+    // 同一编辑会话中的自动保存取代上一条自动保存的记录，并沿用其标题与标签
+    const sessionRecord = history.find(record => record.id === sessionRecordId);
+    const replaced = !snapshot && sessionRecord && isAutoSavedRecord(sessionRecord) &&
+      now - sessionRecord.timestamp < HISTORY_SESSION_IDLE_MS
+      ? sessionRecord
+      : undefined;
+    if (replaced) {
+      newRecord.title = replaced.title;
+      newRecord.tags = replaced.tags;
+    }
+    
+    sessionRecordId = snapshot ? null : id;
+    updateHistory(
+      [newRecord, ...history.filter(record => record !== replaced)],
+      [newRecord],
+      replaced ? [replaced.id] : []
+    );
+  };
+  
+  // 迁移 localStorage 中的旧记录后从 IndexedDB 载入历史记录，载入期间新保存的记录一并保留
+  const loadHistory = async () => {
+    try {
+      await migrateLegacyHistory();
+      const records = await getAllHistoryRecords();
+      const { history } = get();
+      const currentIds = new Set(history.map(record => record.id));
+      updateHistory([...history, ...records.filter(record => !currentIds.has(record.id))]);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+    }
+  };
+  
+  // 当前工作区有改动时写入 IndexedDB；状态在第一个 await 之前读取，调用后立即切换内容也不会保存错误的内容
+  const persistWorkspace = async () => {
+    const state = get();
+    const summary = state.workspaces.find(workspace => workspace.id === state.activeWorkspaceId);
+    if (!workspacesLoaded || !summary) return;
+    const session = getWorkspaceSession(state);
+    
+    // 内容与名称未变化时只写入视图位置，不重写两侧代码
+    if (!workspaceDirty && savedSession && isSameSession(session, savedSession)) {
+      if (!viewDirty) return;
+      viewDirty = false;
+      try {
+        await putWorkspaceView(summary.id, workspaceView);
+      } catch (error) {
+        viewDirty = true;
+        console.error('Failed to save workspace view:', error);
+      }
+      return;
+    }
+    
+    savedSession = session;
+    workspaceDirty = false;
+    viewDirty = false;
+    try {
+      await putWorkspace({ ...summary, ...session, view: workspaceView, updatedAt: Date.now() });
+    } catch (error) {
+      // 下次定期保存时重试
+      savedSession = null;
+      console.error('Failed to save workspace:', error);
+    }
+  };
+  
+  // 在编辑器中打开工作区，对比结果与合并状态重新计算
+  const applyWorkspace = (workspace: Workspace) => {
+    cancelLineDiff();
+    sessionRecordId = null;
+    workspaceView = workspace.view;
+    workspaceDirty = false;
+    viewDirty = false;
+    set({
+      ...getWorkspaceSession(workspace),
+      activeWorkspaceId: workspace.id,
+      restoredView: workspace.view,
+      diffModel: EMPTY_DIFF_MODEL,
+      mergeUndoStack: [],
+      mergeRedoStack: [],
+      mergeRegions: [],
+      conflictResolutions: {},
+      isComparing: false,
+      activeFilePath: null
+    });
+    savedSession = getWorkspaceSession(get());
+    saveActiveWorkspaceId(workspace.id);
+    
+    const { isMergeMode, autoCompare, originalCode, modifiedCode } = get();
+    if (isMergeMode) get().computeMerge();
+    // 内容可能与切换前相同而不会触发自动对比，这里直接对比
+    if (autoCompare && (originalCode || modifiedCode)) get().compareCode();
+  };
+  
+  // 保存当前工作区后新建空白工作区并切换过去，对比选项与视图模式沿用当前设置
+  const openNewWorkspace = (name?: string) => {
+    persistWorkspace();
+    const { workspaces, comparisonOptions, viewMode } = get();
+    const now = Date.now();
+    const workspace: Workspace = {
+      id: createWorkspaceId(),
+      name: name ?? getDefaultWorkspaceName(workspaces),
+      createdAt: now,
+      updatedAt: now,
+      originalCode: '',
+      modifiedCode: '',
+      originalFileName: '',
+      modifiedFileName: '',
+      baseCode: '',
+      isMergeMode: false,
+      selectedLanguage: DEFAULT_LANGUAGE,
+      languagePinned: false,
+      comparisonOptions,
+      viewMode,
+      autoCompare: true,
+      view: EMPTY_WORKSPACE_VIEW
+    };
+    set({ workspaces: [...workspaces, toWorkspaceSummary(workspace)] });
+    applyWorkspace(workspace);
+    
+    // 立即写入，之后才能从其他工作区切换回来
+    savedSession = null;
+    persistWorkspace();
+  };
+  
+  // 从 IndexedDB 恢复上次打开的工作区；载入期间已有内容（如打开了分享链接）时保留为新的工作区
+  const loadWorkspaces = async () => {
+    try {
+      const stored = await getAllWorkspaces();
+      const activeId = loadActiveWorkspaceId();
+      const active = stored.find(workspace => workspace.id === activeId) ??
+        [...stored].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      const summaries = stored.map(toWorkspaceSummary);
+      const { originalCode, modifiedCode } = get();
+      workspacesLoaded = true;
+      
+      if (active && !originalCode && !modifiedCode) {
+        set({ workspaces: summaries });
+        applyWorkspace(active);
+        return;
+      }
+      
+      const current = { ...initialWorkspace, name: getDefaultWorkspaceName(summaries) };
+      set({ workspaces: [...summaries, current], activeWorkspaceId: current.id });
+      saveActiveWorkspaceId(current.id);
+      persistWorkspace();
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+  };
+  
+  if (typeof indexedDB !== 'undefined') {
+    loadHistory();
+    loadWorkspaces();
+    
+    // 定期保存，页面隐藏或关闭前立即保存
+    setInterval(() => persistWorkspace(), WORKSPACE_SAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', () => persistWorkspace());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') persistWorkspace();
+    });
+  }
   
   // 初始化时设置DOM类名
   if (typeof document !== 'undefined') {
@@ -227,49 +580,99 @@ export const useCodeStore = create<CodeStore>((set, get) => {
     // 初始状态
     originalCode: '',
     modifiedCode: '',
-    diffLines: [],
-    lineDiffs: [],
-    history: loadHistoryFromStorage(),
+    originalFileName: '',
+    modifiedFileName: '',
+    diffModel: EMPTY_DIFF_MODEL,
+    mergeUndoStack: [],
+    mergeRedoStack: [],
+    baseCode: '',
+    isMergeMode: false,
+    mergeRegions: [],
+    conflictResolutions: {},
+    history: [],
+    historyRetention: initialSettings.historyRetention,
+    directorySources: { original: null, modified: null },
+    activeFilePath: null,
+    workspaces: [initialWorkspace],
+    activeWorkspaceId: initialWorkspace.id,
+    restoredView: null,
+    autoCompare: true,
     isComparing: false,
-    selectedLanguage: 'javascript',
+    compareProgress: 0,
+    diffAlgorithm: initialSettings.diffAlgorithm,
+    detectMoves: initialSettings.detectMoves,
+    comparisonOptions: initialSettings.comparisonOptions,
+    viewMode: savedViewMode ?? getDefaultViewMode(),
+    collapseUnchanged: initialSettings.collapseUnchanged,
+    contextLines: initialSettings.contextLines,
+    syntaxDiffLanguages: initialSettings.syntaxDiffLanguages,
+    normalizeBeforeDiff: initialSettings.normalizeBeforeDiff,
+    tabWidth: initialSettings.tabWidth,
+    selectedLanguage: DEFAULT_LANGUAGE,
+    languagePinned: false,
+    detectedLanguages: { original: null, modified: null },
     isDarkMode: initialIsDarkMode,
   
-  // 设置原始代码
+  // 设置原始代码（手动编辑后旧的合并快照不再可靠，清空撤销栈）
   setOriginalCode: (code: string) => {
-    set({ originalCode: code });
+    set({ originalCode: code, mergeUndoStack: [], mergeRedoStack: [] });
   },
   
   // 设置修改后代码
   setModifiedCode: (code: string) => {
-    set({ modifiedCode: code });
+    set({ modifiedCode: code, mergeUndoStack: [], mergeRedoStack: [] });
   },
   
-  // 执行代码对比 - 使用智能LCS行对齐算法
-  compareCode: () => {
-    const { originalCode, modifiedCode } = get();
+  // 设置原始文件名
+  setOriginalFileName: (name: string) => {
+    set({ originalFileName: name });
+  },
+  
+  // 设置修改后文件名
+  setModifiedFileName: (name: string) => {
+    set({ modifiedFileName: name });
+  },
+  
+  // 执行代码对比 - 在Worker中进行线性空间的行对齐
+  compareCode: async () => {
+    const {
+      originalCode,
+      modifiedCode,
+      diffAlgorithm,
+      detectMoves,
+      comparisonOptions,
+      selectedLanguage,
+      syntaxDiffLanguages,
+      normalizeBeforeDiff,
+      tabWidth
+    } = get();
+    const syntax = isSyntaxLanguage(selectedLanguage) && syntaxDiffLanguages.includes(selectedLanguage)
+      ? selectedLanguage
+      : undefined;
     
-    set({ isComparing: true });
+    set({ isComparing: true, compareProgress: 0 });
     
     try {
-      const originalLines = originalCode.split('\n');
-      const modifiedLines = modifiedCode.split('\n');
-      
-      // 使用LCS算法进行智能行对齐
-      const diffResult = computeLineDiff(originalLines, modifiedLines);
+      const diffResult = await runLineDiff(
+        originalCode,
+        modifiedCode,
+        {
+          algorithm: diffAlgorithm,
+          comparison: comparisonOptions,
+          detectMoves,
+          normalize: normalizeBeforeDiff ? { language: selectedLanguage, tabWidth } : undefined,
+          syntax
+        },
+        (progress) => set({ compareProgress: progress })
+      );
       
-      // 提取有差异的行号
-      const diffLines: number[] = [];
-      
-      diffResult.forEach((item, index) => {
-        if (item.type !== 'equal') {
-          diffLines.push(index + 1);
-        }
-      });
+      // 已被更新的对比请求取代，由新请求负责更新状态
+      if (!diffResult) return;
       
       set({ 
-        diffLines: [...new Set(diffLines)].sort((a, b) => a - b),
-        lineDiffs: diffResult,
-        isComparing: false 
+        diffModel: buildDiffModel(originalCode, modifiedCode, diffResult),
+        isComparing: false,
+        compareProgress: 1
       });
       
       // 自动保存到历史记录
@@ -283,88 +686,454 @@ export const useCodeStore = create<CodeStore>((set, get) => {
   
   // 清空代码
   clearCode: () => {
+    cancelLineDiff();
+    sessionRecordId = null;
     set({ 
       originalCode: '', 
       modifiedCode: '', 
-      diffLines: [],
-      lineDiffs: []
+      originalFileName: '',
+      modifiedFileName: '',
+      diffModel: EMPTY_DIFF_MODEL,
+      mergeUndoStack: [],
+      mergeRedoStack: [],
+      baseCode: '',
+      mergeRegions: [],
+      conflictResolutions: {},
+      isComparing: false
     });
   },
   
-  // 保存到历史记录
-  saveToHistory: () => {
-    const { originalCode, modifiedCode, selectedLanguage, history } = get();
+  // 设置目录对比一侧的文件来源
+  setDirectorySource: (side: DiffSide, source: FileSource | null) => {
+    set({ directorySources: { ...get().directorySources, [side]: source }, activeFilePath: null });
+  },
+  
+  // 在编辑器中打开目录对比中的一对文件，并按扩展名切换语言
+  openFileComparison: (file: FileComparison) => {
+    sessionRecordId = null;
+    set({
+      originalCode: file.original?.content ?? '',
+      modifiedCode: file.modified?.content ?? '',
+      originalFileName: file.original ? file.path : '',
+      modifiedFileName: file.modified ? file.path : '',
+      activeFilePath: file.path,
+      mergeUndoStack: [],
+      mergeRedoStack: []
+    });
+    get().detectLanguages();
+  },
+  
+  // 应用单个变更块，并立即重新对比
+  applyHunk: (hunkIndex: number, direction: MergeDirection) => {
+    const { originalCode, modifiedCode, diffModel, mergeUndoStack } = get();
+    const hunk = diffModel.hunks[hunkIndex];
     
-    if (!originalCode.trim() && !modifiedCode.trim()) return;
+    // 对比结果已过期时变更块的行号不再可靠
+    if (!hunk || diffModel.originalCode !== originalCode || diffModel.modifiedCode !== modifiedCode) {
+      console.warn('Diff result is outdated, please compare again before merging');
+      return;
+    }
     
-    const newRecord: HistoryRecord = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      original: originalCode,
-      modified: modifiedCode,
-      lang: selectedLanguage
-    };
+    set({
+      ...mergeHunk(originalCode, modifiedCode, hunk, direction),
+      mergeUndoStack: [...mergeUndoStack, { originalCode, modifiedCode }],
+      mergeRedoStack: []
+    });
+    get().compareCode();
+  },
+  
+  // 撤销上一次合并
+  undoMerge: () => {
+    const { originalCode, modifiedCode, mergeUndoStack, mergeRedoStack } = get();
+    const snapshot = mergeUndoStack[mergeUndoStack.length - 1];
+    if (!snapshot) return;
+    
+    set({
+      ...snapshot,
+      mergeUndoStack: mergeUndoStack.slice(0, -1),
+      mergeRedoStack: [...mergeRedoStack, { originalCode, modifiedCode }]
+    });
+    get().compareCode();
+  },
+  
+  // 重做被撤销的合并
+  redoMerge: () => {
+    const { originalCode, modifiedCode, mergeUndoStack, mergeRedoStack } = get();
+    const snapshot = mergeRedoStack[mergeRedoStack.length - 1];
+    if (!snapshot) return;
+    
+    set({
+      ...snapshot,
+      mergeUndoStack: [...mergeUndoStack, { originalCode, modifiedCode }],
+      mergeRedoStack: mergeRedoStack.slice(0, -1)
+    });
+    get().compareCode();
+  },
+  
+  // 设置基础版本代码
+  setBaseCode: (code: string) => {
+    set({ baseCode: code });
+  },
+  
+  // 切换三方合并模式
+  setMergeMode: (enabled: boolean) => {
+    set({ isMergeMode: enabled });
+    if (enabled) get().computeMerge();
+  },
+  
+  // 计算三方合并结果
+  computeMerge: () => {
+    const { baseCode, originalCode, modifiedCode, diffAlgorithm, comparisonOptions, mergeRegions, conflictResolutions } = get();
     
-    const updatedHistory = [newRecord, ...history].slice(0, 20);
-    set({ history: updatedHistory });
-    saveHistoryToStorage(updatedHistory);
+    try {
+      const regions = computeThreeWayMerge(baseCode, originalCode, modifiedCode, {
+        algorithm: diffAlgorithm,
+        comparison: comparisonOptions
+      });
+      set({
+        mergeRegions: regions,
+        conflictResolutions: preserveResolutions(mergeRegions, regions, conflictResolutions)
+      });
+    } catch (error) {
+      console.error('Three-way merge failed:', error);
+    }
+  },
+  
+  // 设置冲突的解决方式，传入 null 表示恢复为未解决
+  resolveConflict: (regionIndex: number, resolution: ConflictResolution | null) => {
+    set(state => {
+      const conflictResolutions = { ...state.conflictResolutions };
+      if (resolution) {
+        conflictResolutions[regionIndex] = resolution;
+      } else {
+        delete conflictResolutions[regionIndex];
+      }
+      return { conflictResolutions };
+    });
+  },
+  
+  // 生成合并结果
+  getMergedCode: (withMarkers: boolean) => {
+    const { mergeRegions, conflictResolutions, originalFileName, modifiedFileName } = get();
+    return buildMergedCode(mergeRegions, conflictResolutions, {
+      markers: withMarkers,
+      oursLabel: originalFileName || 'ours',
+      theirsLabel: modifiedFileName || 'theirs'
+    });
+  },
+  
+  // 载入从终端粘贴的冲突文本，拆分为基础/我方/对方三栏
+  loadConflictText: (text: string) => {
+    const parsed = parseConflictMarkers(text);
+    if (!parsed) return false;
+    
+    sessionRecordId = null;
+    set({
+      baseCode: parsed.base,
+      originalCode: parsed.ours,
+      modifiedCode: parsed.theirs,
+      isMergeMode: true,
+      conflictResolutions: {},
+      mergeUndoStack: [],
+      mergeRedoStack: []
+    });
+    get().computeMerge();
+    return true;
+  },
+  
+  // 自动保存到历史记录
+  saveToHistory: () => {
+    saveRecord(false);
+  },
+  
+  // 手动保存快照
+  saveSnapshot: () => {
+    saveRecord(true);
   },
   
   // 从历史记录加载
   loadFromHistory: (record: HistoryRecord) => {
+    // 进行中的对比基于旧内容，结果不能用于新载入的代码
+    cancelLineDiff();
+    sessionRecordId = null;
     set({ 
       originalCode: record.original,
       modifiedCode: record.modified,
+      originalFileName: '',
+      modifiedFileName: '',
       selectedLanguage: record.lang,
-      diffLines: [],
-      lineDiffs: []
+      languagePinned: true,
+      comparisonOptions: record.options ?? get().comparisonOptions,
+      diffModel: EMPTY_DIFF_MODEL,
+      isMergeMode: false,
+      isComparing: false,
+      mergeUndoStack: [],
+      mergeRedoStack: [],
+      activeFilePath: null
     });
   },
   
-  // 清空历史记录
+  // 对比两个历史版本，left 显示在左侧、right 显示在右侧；语言以历史记录为准，对比选项沿用当前设置
+  compareHistoryVersions: (left: HistoryVersion, right: HistoryVersion) => {
+    const state = get();
+    const resolve = ({ record, side }: HistoryVersion) => {
+      if (record) {
+        return { code: record[side], fileName: `${getHistoryRecordName(record)} · ${HISTORY_SIDE_LABELS[side]}` };
+      }
+      return side === 'original'
+        ? { code: state.originalCode, fileName: state.originalFileName }
+        : { code: state.modifiedCode, fileName: state.modifiedFileName };
+    };
+    const original = resolve(left);
+    const modified = resolve(right);
+    
+    cancelLineDiff();
+    sessionRecordId = null;
+    set({
+      originalCode: original.code,
+      modifiedCode: modified.code,
+      originalFileName: original.fileName,
+      modifiedFileName: modified.fileName,
+      selectedLanguage: left.record?.lang ?? right.record?.lang ?? state.selectedLanguage,
+      languagePinned: true,
+      diffModel: EMPTY_DIFF_MODEL,
+      isMergeMode: false,
+      isComparing: false,
+      mergeUndoStack: [],
+      mergeRedoStack: [],
+      activeFilePath: null
+    });
+  },
+  
+  // 修改历史记录的标题、标签或置顶状态
+  updateHistoryRecord: (id: string, changes: Partial<Pick<HistoryRecord, 'title' | 'tags' | 'pinned'>>) => {
+    const { history } = get();
+    const record = history.find(item => item.id === id);
+    if (!record) return;
+    
+    const updatedRecord = { ...record, ...changes };
+    updateHistory(history.map(item => (item.id === id ? updatedRecord : item)), [updatedRecord]);
+  },
+  
+  // 删除单条历史记录
+  deleteHistoryRecord: (id: string) => {
+    set({ history: get().history.filter(record => record.id !== id) });
+    deleteHistoryRecords([id]).catch(error => console.error('Failed to delete history:', error));
+  },
+  
+  // 清空历史记录，置顶的记录保留
   clearHistory: () => {
-    set({ history: [] });
-    localStorage.removeItem(STORAGE_KEY);
+    const { history } = get();
+    set({ history: history.filter(record => record.pinned) });
+    deleteHistoryRecords(history.filter(record => !record.pinned).map(record => record.id))
+      .catch(error => console.error('Failed to clear history:', error));
   },
   
   // 导出历史记录
   exportHistory: () => {
-    const { history } = get();
-    return JSON.stringify(history, null, 2);
+    return createHistoryExport(get().history);
+  },
+  
+  // 导入已校验的历史记录，id 重复的记录按 strategy 处理
+  importHistory: (records: HistoryRecord[], strategy: DuplicateStrategy) => {
+    const { records: mergedHistory, changed, ...summary } = mergeImportedRecords(get().history, records, strategy);
+    updateHistory(mergedHistory, changed);
+    return summary;
+  },
+  
+  // 设置历史记录保留策略，立即删除超出策略的记录
+  setHistoryRetention: (retention: Partial<HistoryRetention>) => {
+    set({ historyRetention: { ...get().historyRetention, ...retention } });
+    persistSettings();
+    updateHistory(get().history);
+  },
+  
+  // 载入分享链接中的对比内容，语言与对比选项以分享方为准；当前工作区已有内容时在新的工作区中打开
+  loadSharedComparison: (comparison: SharedComparison) => {
+    const { originalCode, modifiedCode } = get();
+    if (workspacesLoaded && (originalCode || modifiedCode)) {
+      openNewWorkspace(comparison.modifiedFileName || comparison.originalFileName || '分享的对比');
+    }
+    
+    cancelLineDiff();
+    sessionRecordId = null;
+    set({
+      originalCode: comparison.original,
+      modifiedCode: comparison.modified,
+      originalFileName: comparison.originalFileName ?? '',
+      modifiedFileName: comparison.modifiedFileName ?? '',
+      selectedLanguage: comparison.language,
+      languagePinned: true,
+      comparisonOptions: comparison.options,
+      diffModel: EMPTY_DIFF_MODEL,
+      isMergeMode: false,
+      isComparing: false,
+      mergeUndoStack: [],
+      mergeRedoStack: [],
+      activeFilePath: null
+    });
   },
   
-  // 导入历史记录
-  importHistory: (data: string) => {
+  // 新建工作区
+  createWorkspace: () => {
+    openNewWorkspace();
+  },
+  
+  // 保存当前工作区后切换到另一个工作区
+  switchWorkspace: async (id: string) => {
+    if (id === get().activeWorkspaceId) return;
+    await persistWorkspace();
+    
     try {
-      const importedHistory = JSON.parse(data) as HistoryRecord[];
-      
-      // 验证数据格式
-      if (!Array.isArray(importedHistory)) {
-        throw new Error('Invalid data format');
+      const workspace = await getWorkspace(id);
+      if (workspace) {
+        applyWorkspace(workspace);
+      } else {
+        console.error('Workspace not found:', id);
+        set({ workspaces: get().workspaces.filter(item => item.id !== id) });
       }
-      
-      // 合并历史记录，去重
-      const { history } = get();
-      const existingIds = new Set(history.map(record => record.id));
-      const newRecords = importedHistory.filter(record => !existingIds.has(record.id));
-      
-      const mergedHistory = [...newRecords, ...history]
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .slice(0, 20);
-      
-      set({ history: mergedHistory });
-      saveHistoryToStorage(mergedHistory);
-      
-      return true;
     } catch (error) {
-      console.error('Failed to import history:', error);
-      return false;
+      console.error('Failed to load workspace:', error);
+    }
+  },
+  
+  // 重命名工作区，名称为空时忽略
+  renameWorkspace: (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    
+    set({ workspaces: get().workspaces.map(workspace => (workspace.id === id ? { ...workspace, name: trimmed } : workspace)) });
+    if (id === get().activeWorkspaceId) {
+      workspaceDirty = true;
+      persistWorkspace();
+    } else {
+      getWorkspace(id)
+        .then(workspace => workspace && putWorkspace({ ...workspace, name: trimmed }))
+        .catch(error => console.error('Failed to rename workspace:', error));
     }
   },
   
+  // 关闭并删除工作区，关闭当前工作区时切换到相邻的工作区，关闭最后一个时新建空白工作区
+  closeWorkspace: async (id: string) => {
+    const { workspaces, activeWorkspaceId } = get();
+    const index = workspaces.findIndex(workspace => workspace.id === id);
+    if (index === -1) return;
+    
+    const remaining = workspaces.filter(workspace => workspace.id !== id);
+    set({ workspaces: remaining });
+    deleteWorkspace(id).catch(error => console.error('Failed to delete workspace:', error));
+    
+    if (id !== activeWorkspaceId) return;
+    if (remaining.length === 0) {
+      openNewWorkspace();
+    } else {
+      await get().switchWorkspace(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  },
+  
+  // 记录当前工作区的滚动位置与导航位置，随下次定期保存写入
+  setWorkspaceView: (view: Partial<Omit<WorkspaceView, 'cursors'>>) => {
+    workspaceView = { ...workspaceView, ...view };
+    viewDirty = true;
+  },
+  
+  // 记录一侧编辑器的光标位置
+  setWorkspaceCursor: (side: DiffSide, offset: number) => {
+    workspaceView = { ...workspaceView, cursors: { ...workspaceView.cursors, [side]: offset } };
+    viewDirty = true;
+  },
+  
+  // 切换自动对比
+  setAutoCompare: (enabled: boolean) => {
+    set({ autoCompare: enabled });
+  },
+  
   // 设置编程语言
   setLanguage: (lang: string) => {
-    set({ selectedLanguage: lang });
+    set({ selectedLanguage: lang, languagePinned: true });
+  },
+  
+  // 恢复自动检测语言
+  unpinLanguage: () => {
+    set({ languagePinned: false });
+    get().detectLanguages();
+  },
+  
+  // 根据文件名与内容检测两侧的语言，未固定语言时切换到最可靠的检测结果
+  detectLanguages: () => {
+    const { originalCode, modifiedCode, originalFileName, modifiedFileName, selectedLanguage, languagePinned } = get();
+    const detectedLanguages = {
+      original: detectLanguage(originalCode, originalFileName),
+      modified: detectLanguage(modifiedCode, modifiedFileName)
+    };
+    set({ detectedLanguages });
+    if (languagePinned) return;
+    
+    // 两侧结果不同时取依据更可靠的一侧，同样可靠时保留当前语言，否则以修改后的一侧为准
+    const candidates = [detectedLanguages.modified, detectedLanguages.original].filter(Boolean);
+    if (candidates.length === 0) return;
+    const confidence = Math.max(...candidates.map(candidate => DETECTION_CONFIDENCE[candidate.source]));
+    const best = candidates.filter(candidate => DETECTION_CONFIDENCE[candidate.source] === confidence);
+    if (!best.some(candidate => candidate.language === selectedLanguage)) {
+      set({ selectedLanguage: best[0].language });
+    }
+  },
+  
+  // 设置行对齐算法
+  setDiffAlgorithm: (algorithm: DiffAlgorithm) => {
+    set({ diffAlgorithm: algorithm });
+    persistSettings();
+  },
+  
+  // 切换移动代码块检测
+  setDetectMoves: (enabled: boolean) => {
+    set({ detectMoves: enabled });
+    persistSettings();
+  },
+  
+  // 更新对比选项
+  setComparisonOptions: (options: Partial<ComparisonOptions>) => {
+    set({ comparisonOptions: { ...get().comparisonOptions, ...options } });
+    persistSettings();
+  },
+  
+  // 切换视图模式
+  setViewMode: (mode: ViewMode) => {
+    savedViewMode = mode;
+    set({ viewMode: mode });
+    persistSettings();
+  },
+  
+  // 切换只看变更模式
+  setCollapseUnchanged: (enabled: boolean) => {
+    set({ collapseUnchanged: enabled });
+    persistSettings();
+  },
+  
+  // 设置折叠时保留的上下文行数
+  setContextLines: (lines: number) => {
+    set({ contextLines: Math.max(0, Math.floor(lines)) });
+    persistSettings();
+  },
+  
+  // 为当前语言开启或关闭语法感知对比
+  setSyntaxDiff: (enabled: boolean) => {
+    const { selectedLanguage, syntaxDiffLanguages } = get();
+    const others = syntaxDiffLanguages.filter(lang => lang !== selectedLanguage);
+    set({ syntaxDiffLanguages: enabled ? [...others, selectedLanguage] : others });
+    persistSettings();
+  },
+  
+  // 切换对比前格式化
+  setNormalizeBeforeDiff: (enabled: boolean) => {
+    set({ normalizeBeforeDiff: enabled });
+    persistSettings();
+  },
+  
+  // 设置格式化时的缩进宽度
+  setTabWidth: (width: number) => {
+    set({ tabWidth: Math.min(8, Math.max(1, Math.floor(width) || DEFAULT_TAB_WIDTH)) });
+    persistSettings();
   },
   
   // 切换主题
@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+import { computeDiffRows } from '../lib/diffPipeline';
+import type { DiffWorkerRequest, DiffWorkerResponse } from '../lib/diffWorkerClient';
+
+/**
+ * 行差异计算 Worker
+ * 在独立线程中执行行对齐，避免大文件对比阻塞主线程
+ */
+declare const self: DedicatedWorkerGlobalScope;
+
+const post = (message: DiffWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<DiffWorkerRequest>) => {
+  const { id, original, modified, options } = event.data;
+
+  try {
+    const lineDiffs = computeDiffRows(
+      original,
+      modified,
+      options,
+      progress => post({ id, type: 'progress', progress })
+    );
+    post({ id, type: 'result', lineDiffs });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};